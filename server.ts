@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import path from 'node:path';
+import dotenv from 'dotenv';
+import express from 'express';
+import { createServer as createViteServer } from 'vite';
+import { createApiRouter } from './src/server/api';
+import { openDatabase } from './src/server/db';
+import { createDailyStore } from './src/server/daily';
+import { createGameStore } from './src/server/games';
+import { createGameHistory } from './src/server/history';
+import { defaultLlmClient } from './src/server/llm';
+import { createAiPlanner } from './src/server/planner';
+import { createSaveStore } from './src/server/saves';
+import { createRoomManager } from './src/server/rooms';
+import { attachRoomSocket } from './src/server/socket';
+
+dotenv.config({ path: ['.env.local', '.env'], quiet: true });
+
+const PORT = Number(process.env.PORT ?? 3000);
+
+const startServer = async () => {
+  const llmClient = defaultLlmClient();
+  const planner = createAiPlanner();
+  const db = openDatabase();
+  const history = createGameHistory(db);
+  const dailies = createDailyStore(db);
+  const rooms = createRoomManager(llmClient, planner, history);
+  const app = express();
+  app.use(express.json());
+  app.use('/api', createApiRouter(createGameStore(history, createSaveStore(db), dailies), rooms, history, dailies, llmClient, planner));
+
+  if (process.env.NODE_ENV === 'production') {
+    const dist = path.resolve(import.meta.dirname, 'dist');
+    app.use(express.static(dist));
+    app.get('*', (_req, res) => res.sendFile(path.join(dist, 'index.html')));
+  } else {
+    const vite = await createViteServer({ server: { middlewareMode: true }, appType: 'spa' });
+    app.use(vite.middlewares);
+  }
+
+  const server = app.listen(PORT, '0.0.0.0', () => console.log(`Crazy Ace is running on http://localhost:${PORT}`));
+  attachRoomSocket(server, rooms);
+};
+
+startServer();
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { AiLevel } from './src/engine';
+import { DEFAULT_RULES, HOUSE_RULES, RuleSet, isRuleSet } from './src/rules';
+import { formatReport, runSimulation } from './src/simulate';
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+  --levels <list>     AI level per seat, comma separated (default: normal,normal)
+  --games <n>         games to play (default: 1000)
+  --seed <n>          first deal seed; games use consecutive seeds (default: 1)
+  --rules <preset>    default, house, or a path to a rules JSON file (default: default)
+  --play-to-last      keep playing until one seat is left holding cards
+  --no-rotate         keep every entrant in the same seat instead of rotating who goes first
+  --json              print the report as JSON instead of tables
+  --out <file>        also write the JSON report to a file
+  --help              show this message`;
+
+const loadRules = (preset: string): RuleSet => {
+  if (preset === 'default') return DEFAULT_RULES;
+  if (preset === 'house') return HOUSE_RULES;
+  const rules = JSON.parse(readFileSync(preset, 'utf8'));
+  if (!isRuleSet(rules)) throw new Error(`${preset} is not a valid rule set.`);
+  return rules;
+};
+
+const main = () => {
+  const { values } = parseArgs({
+    options: {
+      levels: { type: 'string', default: 'normal,normal' },
+      games: { type: 'string', default: '1000' },
+      seed: { type: 'string', default: '1' },
+      rules: { type: 'string', default: 'default' },
+      'play-to-last': { type: 'boolean', default: false },
+      'no-rotate': { type: 'boolean', default: false },
+      json: { type: 'boolean', default: false },
+      out: { type: 'string' },
+      help: { type: 'boolean', default: false },
+    },
+  });
+  if (values.help) return console.log(USAGE);
+
+  const options = {
+    levels: values.levels.split(',').map((level) => level.trim()) as AiLevel[],
+    rules: loadRules(values.rules),
+    playToLast: values['play-to-last'],
+    firstSeed: Number(values.seed),
+    games: Number(values.games),
+    rotate: !values['no-rotate'],
+  };
+
+  // Progress goes to stderr so `--json > report.json` stays clean.
+  const progress = process.stderr.isTTY
+    ? (done: number) => {
+        if (done % 50 === 0 || done === options.games) process.stderr.write(`\r${done}/${options.games} games`);
+        if (done === options.games) process.stderr.write('\n');
+      }
+    : undefined;
+  const report = runSimulation(options, progress);
+
+  const json = JSON.stringify(report, null, 2);
+  if (values.out) writeFileSync(values.out, `${json}\n`);
+  console.log(values.json ? json : formatReport(report));
+};
+
+try {
+  main();
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  console.error(`\n${USAGE}`);
+  process.exit(1);
+}
@@ -3,221 +3,619 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useReducer, useEffect, useRef, useState } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
-import { Heart, Diamond, Club, Spade, RefreshCw, Trophy, AlertCircle, Info } from 'lucide-react';
+import { RefreshCw, Trophy, AlertCircle, Info, Download, Film, Scale, MessageSquare, Timer, Globe, BarChart3, History, ScrollText, Undo2, SearchCheck, ListOrdered, Lightbulb, GraduationCap, Bot } from 'lucide-react';
 import confetti from 'canvas-confetti';
-import { Card, Suit, Rank, createDeck, shuffleDeck, SUITS } from './types';
+import { Card, JOKER, Suit, SUITS } from './types';
+import { DEFAULT_TABLE, GameAction, TableConfig } from './engine';
+import {
+  ApiError,
+  RoomInfo,
+  RoomTicket,
+  advanceAi,
+  createDailyGame,
+  createRemoteGame,
+  createRoom,
+  fetchDailyResults,
+  fetchRecord,
+  fetchRoomRecord,
+  fetchMatch,
+  fetchView,
+  joinRoom,
+  nextHand,
+  submitMove,
+  undoMove,
+} from './api';
+import { RoomSocket, clearTicket, connectRoom, loadTicket, saveTicket } from './online';
+import { ResumeTicket, clearResume, loadResume, saveResume } from './resume';
+import { ReplayFrame, parseGameRecord, replayGame } from './replay';
+import { PlayerEvent, PlayerView } from './view';
+import { Note, describeEvents } from './describe';
+import { CATALOGS, CatalogContext, Locale, loadLocale, saveLocale } from './i18n';
+import { GameReview, reviewGame } from './review';
+import { explainCard, recommendMove, suggestSuit } from './hints';
+import { loadAiDelay, saveAiDelay } from './speed';
+import { DailyResult, dailyKey, loadPlayerId } from './daily';
+import { MatchConfig, MatchState } from './match';
+import { CARD_COLORS, SUIT_ICONS, cardColor, cardIcon, cardLabel } from './components/CardFace';
+import ReplayViewer from './components/ReplayViewer';
+import Tutorial from './components/Tutorial';
+import PrivacyScreen from './components/PrivacyScreen';
+import Autoplay from './components/Autoplay';
+import SpeedSlider from './components/SpeedSlider';
+import DailyChallenge, { CopyDailyResult } from './components/DailyChallenge';
+import SeatFan from './components/SeatFan';
+import TableSetup, { hasHumanSeat } from './components/TableSetup';
+import RulesSetup from './components/RulesSetup';
+import OnlinePlay from './components/OnlinePlay';
+import RoomLobby from './components/RoomLobby';
+import StatsPanel from './components/StatsPanel';
+import MoveLog, { LogEntry } from './components/MoveLog';
+import ReviewPanel from './components/ReviewPanel';
+import MatchSetup from './components/MatchSetup';
+import Dialog from './components/Dialog';
+import { isTyping } from './focus';
+import Scoreboard from './components/Scoreboard';
+import HintBar from './components/HintBar';
+import LanguagePicker from './components/LanguagePicker';
+import { DEFAULT_RULES, RuleSet } from './rules';
 
-const CARD_COLORS = {
-  hearts: 'text-red-500',
-  diamonds: 'text-red-500',
-  clubs: 'text-zinc-800',
-  spades: 'text-zinc-800',
+interface TableTalk {
+  seat: number;
+  text: string;
+}
+
+/** The local server game this tab plays in, with a token for each human seat. Online rooms have none. */
+interface Session {
+  id: string;
+  tokens: Record<number, string>;
+  practice: boolean;
+  /** The daily challenge's date, when this game is one. */
+  daily: string | null;
+}
+
+interface TableState {
+  session: Session | null;
+  view: PlayerView | null;
+  message: Note;
+  talk: TableTalk | null;
+  log: LogEntry[];
+  /** Scores across hands when playing a local match. */
+  match: MatchState | null;
+}
+
+type TableAction =
+  | { type: 'start'; session: Session | null; view: PlayerView; match?: MatchState | null; message?: Note }
+  /** `gameId` names the local game a server reply belongs to; replies for any other game are dropped. */
+  | { type: 'update'; view: PlayerView; events?: PlayerEvent[]; talk?: TableTalk | null; match?: MatchState | null; gameId?: string }
+  | { type: 'undo'; view: PlayerView }
+  | { type: 'error'; message: string }
+  | { type: 'reset' };
+
+const INITIAL_TABLE: TableState = { session: null, view: null, message: (t) => t.footer.welcome, talk: null, log: [], match: null };
+
+type GameStatus = 'start' | 'playing' | 'won' | 'lost' | 'tied' | 'survived';
+
+/** Whether several human seats take turns on this device. */
+const isHotSeat = (session: Session | null) => Object.keys(session?.tokens ?? {}).length > 1;
+
+// Hot-seat players share the screen, so nobody's drawn cards are named in the log or footer.
+const shareEvents = (table: TableState, events: PlayerEvent[]): PlayerEvent[] =>
+  isHotSeat(table.session) ? events.map(event => (event.type === 'cardDrawn' ? { ...event, card: null } : event)) : events;
+
+const logEvents = (events: PlayerEvent[], view: PlayerView): LogEntry[] =>
+  events.map(event => ({ moveCount: view.moveCount, event }));
+
+const tableReducer = (table: TableState, action: TableAction): TableState => {
+  const onTurn = 'view' in action ? action.view.seats[action.view.turn].name : '';
+  switch (action.type) {
+    case 'start':
+      return {
+        session: action.session,
+        view: action.view,
+        message: action.message ?? (t => t.footer.firstTurn(onTurn)),
+        talk: null,
+        log: [],
+        match: action.match ?? null,
+      };
+    case 'update': {
+      // The game was restarted or left while this reply was on its way.
+      if (action.gameId !== undefined && action.gameId !== table.session?.id) return table;
+      const events = shareEvents(table, action.events ?? []);
+      return {
+        ...table,
+        view: action.view,
+        // An online game arrives as an update, including after a reconnect.
+        message: describeEvents(events, action.view)
+          ?? (table.view ? table.message : t => t.footer.toPlay(onTurn)),
+        talk: action.talk ?? table.talk,
+        log: [...table.log, ...logEvents(events, action.view)],
+        match: action.match ?? table.match,
+      };
+    }
+    case 'undo':
+      return {
+        ...table,
+        view: action.view,
+        message: t => t.footer.undone(onTurn),
+        talk: null,
+        log: [
+          ...table.log.filter(entry => entry.moveCount <= action.view.moveCount),
+          { moveCount: action.view.moveCount, event: null },
+        ],
+      };
+    case 'error':
+      return { ...table, message: () => action.message };
+    case 'reset':
+      return INITIAL_TABLE;
+  }
 };
 
-const SUIT_ICONS = {
-  hearts: <Heart className="w-full h-full" />,
-  diamonds: <Diamond className="w-full h-full" />,
-  clubs: <Club className="w-full h-full" />,
-  spades: <Spade className="w-full h-full" />,
+// Suit picker hotkeys: the suit's initial or its position.
+const SUIT_KEYS: Record<string, Suit> = { h: 'hearts', d: 'diamonds', c: 'clubs', s: 'spades', '1': 'hearts', '2': 'diamonds', '3': 'clubs', '4': 'spades' };
+
+// How a finished game turned out for the given seat.
+const outcomeFor = (view: PlayerView, seat: number): GameStatus => {
+  if (view.loser === seat) return 'lost';
+  if (view.winner === seat) return 'won';
+  if (view.loser === null && view.winner === null) return 'tied';
+  return view.winner === null ? 'won' : 'survived';
+};
+
+// Opponents clockwise from the viewer: up the left side, across the top, down the right.
+const layoutOpponents = (seats: number, viewSeat: number) => {
+  const opponents = Array.from({ length: seats - 1 }, (_, i) => (viewSeat + i + 1) % seats);
+  const side = Math.floor(opponents.length / 3);
+  return {
+    left: opponents.slice(0, side).reverse(),
+    top: opponents.slice(side, opponents.length - side),
+    right: opponents.slice(opponents.length - side),
+  };
 };
 
 export default function App() {
-  const [deck, setDeck] = useState<Card[]>([]);
-  const [playerHand, setPlayerHand] = useState<Card[]>([]);
-  const [aiHand, setAiHand] = useState<Card[]>([]);
-  const [discardPile, setDiscardPile] = useState<Card[]>([]);
-  const [currentSuit, setCurrentSuit] = useState<Suit | null>(null);
-  const [turn, setTurn] = useState<'player' | 'ai'>('player');
-  const [gameStatus, setGameStatus] = useState<'start' | 'playing' | 'won' | 'lost'>('start');
-  const [showSuitPicker, setShowSuitPicker] = useState(false);
-  const [pendingAceCard, setPendingAceCard] = useState<Card | null>(null);
-  const [message, setMessage] = useState<string>("Welcome to Crazy Ace!");
-  const [isAiThinking, setIsAiThinking] = useState(false);
-
-  // Initialize game
-  const initGame = useCallback(() => {
-    const fullDeck = shuffleDeck(createDeck());
-    const pHand = fullDeck.slice(0, 10);
-    const aHand = fullDeck.slice(10, 20);
-    const initialDiscard = fullDeck[20];
-    const remainingDeck = fullDeck.slice(21);
-
-    setPlayerHand(pHand);
-    setAiHand(aHand);
-    setDiscardPile([initialDiscard]);
-    setDeck(remainingDeck);
-    setCurrentSuit(initialDiscard.suit);
-    setTurn('player');
-    setGameStatus('playing');
-    setShowSuitPicker(false);
-    setPendingAceCard(null);
-    setMessage("Your turn! Match the suit or rank.");
-    setIsAiThinking(false);
-  }, []);
+  const [{ session, view, message, talk, log, match }, dispatch] = useReducer(tableReducer, INITIAL_TABLE);
+  const [table, setTable] = useState<TableConfig>(DEFAULT_TABLE);
+  const [rules, setRules] = useState<RuleSet>(DEFAULT_RULES);
+  const [busy, setBusy] = useState(false);
+  const [setupError, setSetupError] = useState<string | null>(null);
+  const [replay, setReplay] = useState<{ frames: ReplayFrame[]; seed: number } | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [showTutorial, setShowTutorial] = useState(false);
+  const [showStats, setShowStats] = useState(false);
+  const [showLog, setShowLog] = useState(false);
+  const [practice, setPractice] = useState(false);
+  const [matchConfig, setMatchConfig] = useState<MatchConfig | null>(null);
+  const [review, setReview] = useState<GameReview | null>(null);
+  const [hints, setHints] = useState(false);
+  const [locale, setLocale] = useState<Locale>(loadLocale);
+  const t = CATALOGS[locale];
+  const [hintCard, setHintCard] = useState<Card | null>(null);
+  const [resume, setResume] = useState(loadResume);
+  const [playerId] = useState(loadPlayerId);
+  const [dailyResults, setDailyResults] = useState<Record<string, DailyResult>>({});
+  const [aiDelay, setAiDelay] = useState(loadAiDelay);
+  const aiDelayRef = useRef(aiDelay);
+  aiDelayRef.current = aiDelay;
+  const [showAutoplay, setShowAutoplay] = useState(false);
+  const replayInput = useRef<HTMLInputElement>(null);
+  const [ticket, setTicket] = useState<RoomTicket | null>(null);
+  const [savedTicket, setSavedTicket] = useState(loadTicket);
+  const [room, setRoom] = useState<RoomInfo | null>(null);
+  const [connected, setConnected] = useState(true);
+  const [turnEndsAt, setTurnEndsAt] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const roomSocket = useRef<RoomSocket | null>(null);
+  const handRef = useRef<HTMLDivElement>(null);
+  const [handFocus, setHandFocus] = useState(0);
+  // The hot-seat player who has uncovered their hand; anyone else on turn sees the privacy screen first.
+  const [revealed, setRevealed] = useState<number | null>(null);
+
+  const seats = view?.seats ?? table.seats;
+  const viewSeat = view?.seat ?? 0;
+  const playerHand = view?.hand ?? [];
+  const currentSuit = view?.currentSuit ?? null;
+  const turn = view?.turn ?? 0;
+  const topDiscard = view?.topDiscard ?? null;
+  const gameStatus: GameStatus = !view ? 'start' : view.status === 'playing' ? 'playing' : outcomeFor(view, viewSeat);
+  const hotSeat = isHotSeat(session);
+  // The shown hand is covered the moment the turn leaves it, AI turns included, until its owner is back on turn.
+  const covered = hotSeat && gameStatus === 'playing' && (turn !== viewSeat || revealed !== viewSeat);
+  const isMyTurn = turn === viewSeat && gameStatus === 'playing' && !covered;
+  const showSuitPicker = !!view?.pendingWild && isMyTurn;
+  const isAiThinking = seats[turn]?.kind === 'ai' && gameStatus === 'playing';
+  const opponents = layoutOpponents(seats.length, viewSeat);
+  // A decided match outranks the hand that decided it.
+  const matchStatus: GameStatus | null = match?.status === 'over'
+    ? match.winners.includes(viewSeat) ? (match.winners.length === 1 ? 'won' : 'tied') : 'lost'
+    : null;
+  // A shared screen has no single "you": any decided result is somebody's win.
+  const sharedStatus: GameStatus = match?.status === 'over'
+    ? match.winners.length === 1 ? 'won' : 'tied'
+    : view?.loser !== null || view?.winner !== null ? 'won' : 'tied';
+  const resultStatus = hotSeat && view?.status === 'over' ? sharedStatus : matchStatus ?? gameStatus;
+  const moveHint = hints && view && isMyTurn && !busy ? recommendMove(view) : null;
+  const suitHint = hints && showSuitPicker ? suggestSuit(view!) : null;
+  const hintedCardId = moveHint?.action.type === 'play' ? moveHint.action.cardId : null;
+  const pointedCard = hints && view && hintCard && playerHand.some(c => c.id === hintCard.id) ? hintCard : null;
+
+  const errorText = (err: unknown) => err instanceof Error ? err.message : String(err);
+
+  // Start a game on the server, keeping the current table and rules when restarting
+  const initGame = async (
+    config: TableConfig = view ? { seats: view.seats, playToLast: view.playToLast } : table,
+    ruleSet: RuleSet = view?.rules ?? rules,
+    practiceGame = session?.practice ?? practice,
+    matchGame = match ? match.config : matchConfig,
+  ) => {
+    if (ticket) return leaveRoom();
+    try {
+      const created = await createRemoteGame(config, ruleSet, practiceGame, matchGame);
+      setSetupError(null);
+      setReview(null);
+      setRevealed(null);
+      dispatch({
+        type: 'start',
+        session: { id: created.id, tokens: created.tokens, practice: practiceGame, daily: null },
+        view: created.view,
+        match: created.match,
+        message: created.match ? t => t.footer.matchStart(created.match.config.targetScore, created.view.seats[0].name) : undefined,
+      });
+    } catch (err) {
+      if (view) dispatch({ type: 'error', message: errorText(err) });
+      else setSetupError(errorText(err));
+    }
+  };
 
   const startGame = () => {
-    initGame();
+    if (hasHumanSeat(table)) initGame(table, rules, practice, matchConfig);
+  };
+
+  // Today's deal, the same for everyone; the server allows one attempt per day.
+  const playDaily = async () => {
+    const daily = dailyKey();
+    try {
+      const created = await createDailyGame(daily, playerId);
+      setSetupError(null);
+      setReview(null);
+      setRevealed(null);
+      dispatch({ type: 'start', session: { id: created.id, tokens: created.tokens, practice: false, daily }, view: created.view });
+    } catch (err) {
+      setSetupError(errorText(err));
+    }
+  };
+
+  const resumeGame = async (saved: ResumeTicket) => {
+    const seat = Number(Object.keys(saved.tokens)[0]);
+    try {
+      const [resumed, resumedMatch] = await Promise.all([fetchView(saved.id, saved.tokens[seat]), fetchMatch(saved.id, saved.tokens[seat])]);
+      setSetupError(null);
+      setRevealed(null);
+      dispatch({
+        type: 'start',
+        session: { id: saved.id, tokens: saved.tokens, practice: saved.practice, daily: saved.daily },
+        view: resumed,
+        match: resumedMatch,
+        message: t => t.footer.resumed,
+      });
+    } catch (err) {
+      if (!(err instanceof ApiError) || err.status === 0) return setSetupError(errorText(err));
+      clearResume();
+      setResume({ status: 'discarded', reason: 'gone' });
+    }
   };
 
+  // Every move refreshes the save; a finished game has nothing left to resume, unless its match goes on.
+  useEffect(() => {
+    if (!session || !view) return;
+    if (view.status === 'playing' || match?.status === 'playing') saveResume(session.id, session.tokens, session.practice, session.daily, view);
+    else clearResume();
+  }, [session, view, match]);
+
+  // The server scores the daily challenge; fetch its results again whenever a game starts or ends.
+  useEffect(() => {
+    fetchDailyResults(playerId)
+      .then(setDailyResults)
+      .catch(() => setDailyResults({}));
+  }, [playerId, session?.id, view?.status]);
+
   useEffect(() => {
-    // Don't auto-init anymore, wait for start button
-  }, []);
+    document.documentElement.lang = locale;
+  }, [locale]);
 
-  const topDiscard = useMemo(() => discardPile[discardPile.length - 1], [discardPile]);
+  const changeAiDelay = (delay: number) => {
+    saveAiDelay(delay);
+    setAiDelay(delay);
+  };
+
+  const changeLocale = (next: Locale) => {
+    saveLocale(next);
+    setLocale(next);
+  };
 
-  const canPlay = (card: Card) => {
-    if (!topDiscard) return false;
-    if (card.rank === 'A') return true;
-    return card.suit === currentSuit || card.rank === topDiscard.rank;
+  const enterRoom = (next: RoomTicket) => {
+    saveTicket(next);
+    setSavedTicket(next);
+    setSetupError(null);
+    setRoom(null);
+    setTicket(next);
   };
 
-  const checkGameOver = (pHand: Card[], aHand: Card[]) => {
-    // Rule: First to empty hand LOSES
-    if (pHand.length === 0) {
-      setGameStatus('lost');
-      setMessage("You cleared your hand first... You LOSE!");
-      return true;
+  const hostRoom = async (name: string) => {
+    if (!hasHumanSeat(table)) return;
+    try {
+      enterRoom(await createRoom(table, rules, name));
+    } catch (err) {
+      setSetupError(errorText(err));
     }
-    if (aHand.length === 0) {
-      setGameStatus('won');
-      setMessage("AI cleared its hand first... You WIN!");
+  };
+
+  const joinRoomByCode = async (code: string, name: string) => {
+    try {
+      enterRoom(await joinRoom(code, name));
+    } catch (err) {
+      setSetupError(errorText(err));
+    }
+  };
+
+  const leaveRoom = () => {
+    roomSocket.current?.send({ type: 'leave' });
+    clearTicket();
+    setSavedTicket(null);
+    setTicket(null);
+    setRoom(null);
+    setTurnEndsAt(null);
+    setReview(null);
+    dispatch({ type: 'reset' });
+  };
+
+  // Online games live on the room socket, which pushes this seat's view after every move.
+  useEffect(() => {
+    if (!ticket) return;
+    const socket = connectRoom(ticket, {
+      onConnectionChange: setConnected,
+      onMessage: (message) => {
+        switch (message.type) {
+          case 'room':
+            setRoom(message.room);
+            break;
+          case 'state':
+            setTurnEndsAt(message.timeLeft === null ? null : Date.now() + message.timeLeft);
+            dispatch({ type: 'update', view: message.view, events: message.events, talk: message.talk });
+            break;
+          case 'error':
+            if (!message.fatal) {
+              dispatch({ type: 'error', message: message.message });
+              break;
+            }
+            clearTicket();
+            setSavedTicket(null);
+            setTicket(null);
+            setRoom(null);
+            setTurnEndsAt(null);
+            setSetupError(message.message);
+            dispatch({ type: 'reset' });
+            break;
+        }
+      },
+    });
+    roomSocket.current = socket;
+    return () => {
+      socket.close();
+      roomSocket.current = null;
+    };
+  }, [ticket]);
+
+  useEffect(() => {
+    if (turnEndsAt === null) return;
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [turnEndsAt]);
+
+  // The full record, seed included, is only released by the server once the game is over.
+  const loadRecord = () => ticket ? fetchRoomRecord(ticket) : fetchRecord(session!.id, session!.tokens[viewSeat]);
+
+  const exportReplay = async () => {
+    if (!view || view.status === 'playing') return;
+    try {
+      const record = await loadRecord();
+      const blob = new Blob([JSON.stringify(record, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `crazy-ace-${record.seed}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      dispatch({ type: 'error', message: errorText(err) });
+    }
+  };
+
+  const openReview = async () => {
+    if (!view || view.status === 'playing') return;
+    try {
+      setReview(reviewGame(await loadRecord(), viewSeat));
+    } catch (err) {
+      dispatch({ type: 'error', message: errorText(err) });
+    }
+  };
+
+  // Practice games only; the server replays the game up to the start of the last human turn.
+  const takeBack = async () => {
+    if (!session?.practice || !view || busy) return;
+    setBusy(true);
+    try {
+      const result = await undoMove(session.id, session.tokens[view.seat]);
+      dispatch({ type: 'undo', view: result.view });
+    } catch (err) {
+      dispatch({ type: 'error', message: errorText(err) });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const playNextHand = async () => {
+    if (!session || !match || busy) return;
+    setBusy(true);
+    try {
+      const result = await nextHand(session.id, session.tokens[viewSeat]);
+      const hand = match.hands.length + 1;
+      setRevealed(null);
+      dispatch({
+        type: 'start',
+        session,
+        view: result.view,
+        match: result.match,
+        message: t => t.footer.handStart(hand, result.view.seats[0].name),
+      });
+    } catch (err) {
+      dispatch({ type: 'error', message: errorText(err) });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const openReplay = async (file: File) => {
+    try {
+      const record = parseGameRecord(await file.text());
+      setReplay({ frames: replayGame(record), seed: record.seed });
+      setReplayError(null);
+    } catch (err) {
+      setReplayError(errorText(err));
+    }
+  };
+
+  const canPlay = (card: Card) => !!view?.legal.some(a => a.type === 'play' && a.cardId === card.id);
+
+  useEffect(() => {
+    if (resultStatus === 'won') {
       confetti({
         particleCount: 150,
         spread: 70,
         origin: { y: 0.6 }
       });
-      return true;
     }
-    return false;
-  };
+  }, [resultStatus]);
 
-  const handlePlayerPlay = (card: Card) => {
-    if (turn !== 'player' || gameStatus !== 'playing' || !canPlay(card)) return;
+  // Show the hand of whichever human seat is on turn.
+  useEffect(() => {
+    if (!session || !view || view.status !== 'playing' || view.turn === view.seat) return;
+    const token = session.tokens[view.turn];
+    if (!token) return;
+    fetchView(session.id, token)
+      .then(next => dispatch({ type: 'update', view: next, gameId: session.id }))
+      .catch(err => dispatch({ type: 'error', message: errorText(err) }));
+  }, [session, view]);
 
-    if (card.rank === 'A') {
-      setPendingAceCard(card);
-      setShowSuitPicker(true);
-      return;
+  // The server has the final say; a rejected move leaves the table as it was.
+  const sendMove = async (action: GameAction) => {
+    if (ticket) return roomSocket.current?.send({ type: 'move', action });
+    if (!session || busy) return;
+    setBusy(true);
+    try {
+      const result = await submitMove(session.id, session.tokens[action.seat], action);
+      dispatch({ type: 'update', view: result.view, events: result.events, match: result.match, gameId: session.id });
+    } catch (err) {
+      dispatch({ type: 'error', message: errorText(err) });
+    } finally {
+      setBusy(false);
     }
+  };
 
-    const newHand = playerHand.filter(c => c.id !== card.id);
-    setPlayerHand(newHand);
-    setDiscardPile(prev => [...prev, card]);
-    setCurrentSuit(card.suit);
-
-    if (!checkGameOver(newHand, aiHand)) {
-      setTurn('ai');
-      setMessage("AI is thinking...");
-    }
+  const handlePlayerPlay = (card: Card) => {
+    if (!isMyTurn || !canPlay(card)) return;
+    sendMove({ type: 'play', seat: viewSeat, cardId: card.id });
   };
 
   const handleSuitPick = (suit: Suit) => {
-    if (!pendingAceCard) return;
-
-    const newHand = playerHand.filter(c => c.id !== pendingAceCard.id);
-    setPlayerHand(newHand);
-    setDiscardPile(prev => [...prev, pendingAceCard]);
-    setCurrentSuit(suit);
-    setShowSuitPicker(false);
-    setPendingAceCard(null);
-
-    if (!checkGameOver(newHand, aiHand)) {
-      setTurn('ai');
-      setMessage(`You changed suit to ${suit}. AI's turn.`);
-    }
+    sendMove({ type: 'chooseSuit', seat: viewSeat, suit });
   };
 
+  const mayDraw = isMyTurn && !!view?.legal.some(a => a.type === 'draw');
+  const mayPass = isMyTurn && !!view?.legal.some(a => a.type === 'pass');
+
+  // With nothing left to draw the draw pile passes instead.
   const handleDraw = () => {
-    if (turn !== 'player' || gameStatus !== 'playing') return;
+    if (mayDraw) sendMove({ type: 'draw', seat: viewSeat });
+    else if (mayPass && !view!.canDraw) sendMove({ type: 'pass', seat: viewSeat });
+  };
 
-    if (deck.length === 0) {
-      setMessage("Deck is empty! Skipping turn.");
-      setTurn('ai');
-      return;
-    }
+  const handlePass = () => {
+    if (mayPass) sendMove({ type: 'pass', seat: viewSeat });
+  };
 
-    const newCard = deck[0];
-    const newDeck = deck.slice(1);
-    const newHand = [...playerHand, newCard];
-    
-    setPlayerHand(newHand);
-    setDeck(newDeck);
-    setMessage(`You drew a ${newCard.rank} of ${newCard.suit}.`);
-    
-    // In some rules, you can play immediately if you draw a playable card.
-    // Here we let the player decide or just pass turn if they want.
-    // For simplicity, we just add to hand and let them play if they can, or they can draw again?
-    // Usually you draw once and if you can't play, turn ends.
-    if (!canPlay(newCard)) {
-      setTurn('ai');
-    }
+  // Arrow keys move between cards; only the focused card is in the tab order.
+  const moveHandFocus = (e: React.KeyboardEvent) => {
+    const last = playerHand.length - 1;
+    const next = { ArrowLeft: handFocus - 1, ArrowRight: handFocus + 1, Home: 0, End: last }[e.key];
+    if (next === undefined || last < 0) return;
+    e.preventDefault();
+    const index = Math.max(0, Math.min(last, next));
+    setHandFocus(index);
+    handRef.current?.querySelectorAll<HTMLButtonElement>('[data-card]')[index]?.focus();
   };
 
-  // AI Logic
+  // Hotkeys: D draws (or passes once nothing can be drawn), P passes, and the suit picker takes H/D/C/S or 1-4.
   useEffect(() => {
-    if (turn === 'ai' && gameStatus === 'playing') {
-      setIsAiThinking(true);
-      const timer = setTimeout(() => {
-        const playableCards = aiHand.filter(canPlay);
-        
-        if (playableCards.length > 0) {
-          // AI Strategy: Play non-Ace first if possible, or play Ace if it's the only choice
-          const nonAce = playableCards.find(c => c.rank !== 'A');
-          const cardToPlay = nonAce || playableCards[0];
-
-          const newAiHand = aiHand.filter(c => c.id !== cardToPlay.id);
-          setAiHand(newAiHand);
-          setDiscardPile(prev => [...prev, cardToPlay]);
-          
-          if (cardToPlay.rank === 'A') {
-            // AI picks its most frequent suit
-            const suitCounts: Record<string, number> = {};
-            newAiHand.forEach(c => {
-              suitCounts[c.suit] = (suitCounts[c.suit] || 0) + 1;
-            });
-            const bestSuit = (Object.keys(suitCounts).sort((a, b) => suitCounts[b] - suitCounts[a])[0] as Suit) || 'hearts';
-            setCurrentSuit(bestSuit);
-            setMessage(`AI played Ace and changed suit to ${bestSuit}!`);
-          } else {
-            setCurrentSuit(cardToPlay.suit);
-            setMessage(`AI played ${cardToPlay.rank} of ${cardToPlay.suit}.`);
-          }
-
-          if (!checkGameOver(playerHand, newAiHand)) {
-            setTurn('player');
-          }
-        } else {
-          // AI draws
-          if (deck.length > 0) {
-            const newCard = deck[0];
-            const newDeck = deck.slice(1);
-            const newAiHand = [...aiHand, newCard];
-            setAiHand(newAiHand);
-            setDeck(newDeck);
-            setMessage("AI had no moves and drew a card.");
-            
-            // If AI draws a playable card, it plays it
-            if (canPlay(newCard)) {
-               // Recursive-like play logic simplified
-               // For now, AI just ends turn after drawing to keep it simple
-               setTurn('player');
-            } else {
-               setTurn('player');
-            }
-          } else {
-            setMessage("AI has no moves and deck is empty. Skipping.");
-            setTurn('player');
-          }
-        }
-        setIsAiThinking(false);
-      }, 1500);
-      return () => clearTimeout(timer);
-    }
-  }, [turn, aiHand, currentSuit, deck, gameStatus, playerHand, topDiscard]);
+    if (gameStatus !== 'playing' || !isMyTurn) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (isTyping(e) || e.ctrlKey || e.metaKey || e.altKey || busy) return;
+      const key = e.key.toLowerCase();
+      if (showSuitPicker) {
+        if (!SUIT_KEYS[key]) return;
+        e.preventDefault();
+        handleSuitPick(SUIT_KEYS[key]);
+      } else if (key === 'd') {
+        e.preventDefault();
+        handleDraw();
+      } else if (key === 'p') {
+        e.preventDefault();
+        handlePass();
+      }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  });
+
+  // AI Logic: the server plays the AI seat, we only pace it. Leaving a view
+  // cancels its timer and request, and the reply is tagged with its game, so a
+  // restart mid-turn never applies a stale move. The delay is read through a
+  // ref so moving the speed slider does not cancel a turn already under way.
+  useEffect(() => {
+    if (!session || !view || view.status !== 'playing' || view.seats[view.turn].kind !== 'ai') return;
+    const seat = view.turn;
+    const abort = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const result = await advanceAi(session.id, session.tokens[view.seat], abort.signal);
+        if (abort.signal.aborted) return;
+        dispatch({ type: 'update', view: result.view, events: result.events, talk: result.talk ? { seat, text: result.talk } : null, match: result.match, gameId: session.id });
+      } catch (err) {
+        if (!abort.signal.aborted) dispatch({ type: 'error', message: errorText(err) });
+      }
+    }, aiDelayRef.current);
+    return () => {
+      abort.abort();
+      clearTimeout(timer);
+    };
+  }, [session, view]);
+
+  const renderSeat = (seat: number, vertical = false) => (
+    <div key={seat}>
+      <SeatFan
+        name={room?.seats[seat] && room.seats[seat].kind === 'human' && !room.seats[seat].connected ? t.table.offline(seats[seat].name) : seats[seat].name}
+        count={view?.handCounts[seat] ?? 0}
+        active={turn === seat && gameStatus === 'playing'}
+        out={view?.out.includes(seat)}
+        vertical={vertical}
+        compact={seats.length > 2}
+      />
+    </div>
+  );
 
   return (
+    <CatalogContext.Provider value={t}>
     <div className="min-h-screen bg-[#1a1a1a] text-zinc-100 font-sans selection:bg-emerald-500/30 overflow-hidden flex flex-col">
       {/* Start Screen */}
       <AnimatePresence>
@@ -226,13 +624,16 @@ export default function App() {
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
             exit={{ opacity: 0 }}
-            className="fixed inset-0 z-[100] flex flex-col items-center justify-center bg-[#1a1a1a] p-4"
+            className="fixed inset-0 z-[100] flex flex-col items-center bg-[#1a1a1a] p-4 overflow-y-auto"
           >
+            <div className="self-end">
+              <LanguagePicker locale={locale} onChange={changeLocale} />
+            </div>
             <motion.div
               initial={{ y: 20, opacity: 0 }}
               animate={{ y: 0, opacity: 1 }}
               transition={{ delay: 0.2 }}
-              className="text-center"
+              className="text-center my-auto w-full"
             >
               <div className="w-24 h-24 md:w-32 md:h-32 bg-emerald-500 rounded-3xl flex items-center justify-center shadow-2xl shadow-emerald-500/20 mx-auto mb-8">
                 <Trophy className="text-white w-12 h-12 md:w-16 md:h-16" />
@@ -240,24 +641,114 @@ export default function App() {
               <h1 className="text-5xl md:text-7xl font-black tracking-tighter mb-4 bg-gradient-to-b from-white to-white/50 bg-clip-text text-transparent italic">
                 CRAZY ACE
               </h1>
-              <p className="text-zinc-400 text-lg md:text-xl mb-12 max-w-md mx-auto">
-                A strategic twist on Crazy Eights. Remember: the first to empty their hand <span className="text-emerald-400 font-bold">LOSES</span>!
+              <p className="text-zinc-400 text-lg md:text-xl mb-8 max-w-md mx-auto">
+                {t.start.tagline.before}<span className="text-emerald-400 font-bold">{t.start.tagline.emphasis}</span>{t.start.tagline.after}
               </p>
-              
               <button
-                onClick={startGame}
-                className="group relative px-12 py-5 bg-white text-zinc-900 font-bold text-xl rounded-2xl transition-all hover:scale-105 active:scale-95 shadow-xl hover:shadow-white/10"
+                onClick={() => setShowTutorial(true)}
+                className="inline-flex items-center gap-2 mb-8 px-4 py-2 text-sm font-medium text-emerald-400 border border-emerald-500/30 rounded-xl hover:bg-emerald-500/10 transition-colors"
               >
-                <span className="relative z-10 flex items-center gap-3">
-                  Click to Start
-                  <motion.div
-                    animate={{ x: [0, 5, 0] }}
-                    transition={{ repeat: Infinity, duration: 1.5 }}
-                  >
-                    →
-                  </motion.div>
-                </span>
+                <GraduationCap className="w-4 h-4" />
+                {t.tutorial.title}
               </button>
+
+              {ticket ? (
+                <RoomLobby room={room} seat={ticket.seat} connected={connected} onStart={() => roomSocket.current?.send({ type: 'start' })} onLeave={leaveRoom} />
+              ) : (
+                <>
+                  {resume.status === 'ok' && (
+                    <button
+                      onClick={() => resumeGame(resume.ticket)}
+                      className="w-full max-w-md mx-auto mb-8 p-4 flex items-center gap-4 bg-emerald-500/10 hover:bg-emerald-500/20 border border-emerald-500/30 rounded-2xl text-left transition-colors"
+                    >
+                      <History className="w-8 h-8 text-emerald-400 shrink-0" />
+                      <span>
+                        <span className="block font-bold text-emerald-400">{t.start.resume}</span>
+                        <span className="block text-sm text-zinc-400">
+                          {t.start.resumeDetails(resume.ticket.practice, resume.ticket.seats, resume.ticket.hand, new Date(resume.ticket.savedAt).toLocaleString())}
+                        </span>
+                      </span>
+                    </button>
+                  )}
+                  {resume.status === 'discarded' && <p className="mb-6 text-sm text-amber-400">{t.start.discarded[resume.reason]}</p>}
+                  <DailyChallenge today={dailyKey()} results={dailyResults} onPlay={playDaily} />
+                  <TableSetup table={table} onChange={setTable} />
+                  <RulesSetup rules={rules} onChange={setRules} />
+                  <MatchSetup match={matchConfig} onChange={setMatchConfig} />
+
+                  <label className="flex items-center justify-center gap-2 mb-6 text-sm text-zinc-400 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={practice}
+                      onChange={(e) => setPractice(e.target.checked)}
+                      className="accent-emerald-500"
+                    />
+                    {t.start.practice}
+                  </label>
+
+                  <button
+                    onClick={startGame}
+                    disabled={!hasHumanSeat(table)}
+                    className="group relative px-12 py-5 bg-white text-zinc-900 font-bold text-xl rounded-2xl transition-all hover:scale-105 active:scale-95 shadow-xl hover:shadow-white/10 disabled:opacity-50 disabled:hover:scale-100"
+                  >
+                    <span className="relative z-10 flex items-center gap-3">
+                      {t.start.play}
+                      <motion.div
+                        animate={{ x: [0, 5, 0] }}
+                        transition={{ repeat: Infinity, duration: 1.5 }}
+                      >
+                        →
+                      </motion.div>
+                    </span>
+                  </button>
+
+                  <div className="mt-8">
+                    <OnlinePlay
+                      savedCode={savedTicket?.code ?? null}
+                      onCreate={hostRoom}
+                      onJoin={joinRoomByCode}
+                      onRejoin={() => savedTicket && enterRoom(savedTicket)}
+                    />
+                  </div>
+
+                  <div>
+                    <button
+                      onClick={() => replayInput.current?.click()}
+                      className="inline-flex items-center gap-2 text-sm text-zinc-400 hover:text-emerald-400 transition-colors"
+                    >
+                      <Film className="w-4 h-4" />
+                      {t.start.watchReplay}
+                    </button>
+                    <button
+                      onClick={() => setShowAutoplay(true)}
+                      className="inline-flex items-center gap-2 ml-6 text-sm text-zinc-400 hover:text-emerald-400 transition-colors"
+                    >
+                      <Bot className="w-4 h-4" />
+                      {t.autoplay.title}
+                    </button>
+                    <button
+                      onClick={() => setShowStats(true)}
+                      className="inline-flex items-center gap-2 ml-6 text-sm text-zinc-400 hover:text-emerald-400 transition-colors"
+                    >
+                      <BarChart3 className="w-4 h-4" />
+                      {t.table.leaderboard}
+                    </button>
+                    <input
+                      ref={replayInput}
+                      type="file"
+                      accept="application/json,.json"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) openReplay(file);
+                        e.target.value = '';
+                      }}
+                    />
+                    {replayError && <p className="mt-2 text-sm text-red-400">{replayError}</p>}
+                  </div>
+                </>
+              )}
+              {setupError && <p className="mt-2 text-sm text-red-400">{setupError}</p>}
             </motion.div>
 
             {/* Background elements */}
@@ -275,102 +766,163 @@ export default function App() {
           </div>
           <div>
             <h1 className="text-xl font-bold tracking-tight">Crazy Ace</h1>
-            <p className="text-xs text-zinc-400 uppercase tracking-widest font-medium">First to empty hand loses</p>
+            <p className="text-xs text-zinc-400 uppercase tracking-widest font-medium">
+              {t.table.firstToEmpty((view?.rules ?? rules).emptyHandLoses)}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-1">
+          <div className="mr-2">
+            <LanguagePicker locale={locale} onChange={changeLocale} />
           </div>
+          {ticket && (
+            <span className="flex items-center gap-1.5 mr-2 px-3 py-1 bg-white/5 border border-white/10 rounded-full text-xs font-mono tracking-widest" title={t.lobby.roomCode}>
+              <Globe className={`w-4 h-4 ${connected ? 'text-emerald-400' : 'text-amber-400'}`} />
+              {ticket.code}
+            </span>
+          )}
+          {session?.practice && (
+            <button
+              onClick={takeBack}
+              disabled={!view || view.moveCount === 0 || busy || isAiThinking}
+              className="p-2 hover:bg-white/5 rounded-full transition-colors group disabled:opacity-30"
+              title={t.table.undo}
+            >
+              <Undo2 className="w-6 h-6 text-zinc-400 group-hover:text-emerald-400 transition-colors" />
+            </button>
+          )}
+          <div className="hidden md:block mr-2">
+            <SpeedSlider delay={aiDelay} onChange={changeAiDelay} />
+          </div>
+          <button
+            onClick={() => setHints(shown => !shown)}
+            aria-pressed={hints}
+            className="p-2 hover:bg-white/5 rounded-full transition-colors group"
+            title={hints ? t.table.hideHints : t.table.showHints}
+          >
+            <Lightbulb className={`w-6 h-6 transition-colors ${hints ? 'text-amber-400' : 'text-zinc-400 group-hover:text-amber-400'}`} />
+          </button>
+          <button
+            onClick={() => setShowLog(shown => !shown)}
+            className="p-2 hover:bg-white/5 rounded-full transition-colors group"
+            title={t.table.moveLog}
+          >
+            <ScrollText className={`w-6 h-6 transition-colors ${showLog ? 'text-emerald-400' : 'text-zinc-400 group-hover:text-emerald-400'}`} />
+          </button>
+          <button
+            onClick={() => setShowStats(true)}
+            className="p-2 hover:bg-white/5 rounded-full transition-colors group"
+            title={t.table.leaderboard}
+          >
+            <BarChart3 className="w-6 h-6 text-zinc-400 group-hover:text-emerald-400 transition-colors" />
+          </button>
+          <button
+            onClick={exportReplay}
+            disabled={!view || view.status === 'playing'}
+            className="p-2 hover:bg-white/5 rounded-full transition-colors group disabled:opacity-30"
+            title={view?.status === 'playing' ? t.table.exportAfterGame : t.table.exportReplay}
+          >
+            <Download className="w-6 h-6 text-zinc-400 group-hover:text-emerald-400 transition-colors" />
+          </button>
+          <button 
+            onClick={() => initGame()}
+            className="p-2 hover:bg-white/5 rounded-full transition-colors group"
+            title={ticket ? t.table.leaveRoom : t.table.restart}
+          >
+            <RefreshCw className="w-6 h-6 text-zinc-400 group-hover:text-emerald-400 transition-colors" />
+          </button>
         </div>
-        <button 
-          onClick={initGame}
-          className="p-2 hover:bg-white/5 rounded-full transition-colors group"
-          title="Restart Game"
-        >
-          <RefreshCw className="w-6 h-6 text-zinc-400 group-hover:text-emerald-400 transition-colors" />
-        </button>
       </header>
 
       {/* Game Board */}
       <main className="flex-1 relative p-4 md:p-8 flex flex-col items-center justify-between max-w-6xl mx-auto w-full">
         
-        {/* AI Area */}
-        <div className="w-full flex flex-col items-center gap-4">
-          <div className="flex items-center gap-2 px-4 py-1.5 bg-white/5 rounded-full border border-white/10">
-            <div className={`w-2 h-2 rounded-full ${turn === 'ai' ? 'bg-emerald-500 animate-pulse' : 'bg-zinc-600'}`} />
-            <span className="text-sm font-medium text-zinc-400">AI Opponent ({aiHand.length})</span>
-          </div>
-          <div className="flex -space-x-8 md:-space-x-12 overflow-visible py-4">
-            {aiHand.map((_, idx) => (
-              <motion.div
-                key={`ai-card-${idx}`}
-                initial={{ y: -50, opacity: 0 }}
-                animate={{ y: 0, opacity: 1 }}
-                className="w-16 h-24 md:w-24 md:h-36 bg-gradient-to-br from-zinc-700 to-zinc-900 rounded-lg border-2 border-white/10 shadow-xl flex items-center justify-center"
-              >
-                <div className="w-8 h-8 md:w-12 md:h-12 border-2 border-white/5 rounded-full flex items-center justify-center">
-                   <div className="w-4 h-4 md:w-6 md:h-6 bg-emerald-500/20 rounded-full" />
-                </div>
-              </motion.div>
-            ))}
-          </div>
+        {/* Opponents across the top */}
+        <div className="w-full flex flex-wrap justify-center gap-6 md:gap-12">
+          {opponents.top.map(seat => renderSeat(seat))}
         </div>
 
-        {/* Center Area (Deck & Discard) */}
-        <div className="flex items-center gap-8 md:gap-16 my-8">
-          {/* Draw Pile */}
-          <div className="relative group">
-            <button 
-              onClick={handleDraw}
-              disabled={turn !== 'player' || gameStatus !== 'playing'}
-              className="relative w-24 h-36 md:w-32 md:h-48 bg-emerald-600 rounded-xl border-4 border-white/20 shadow-2xl flex items-center justify-center transition-transform hover:scale-105 active:scale-95 disabled:opacity-50 disabled:hover:scale-100"
-            >
-              <div className="text-white font-bold text-2xl opacity-20 select-none">DECK</div>
-              <div className="absolute -bottom-2 -right-2 bg-zinc-900 px-2 py-1 rounded-md text-xs font-mono border border-white/10">
-                {deck.length}
-              </div>
-            </button>
-            {/* Stack effect */}
-            <div className="absolute -z-10 top-1 left-1 w-full h-full bg-emerald-700 rounded-xl border-4 border-white/10" />
-            <div className="absolute -z-20 top-2 left-2 w-full h-full bg-emerald-800 rounded-xl border-4 border-white/10" />
+        <div className="w-full flex items-center justify-between gap-4">
+          {/* Opponents on the left */}
+          <div className="flex flex-col gap-6 min-w-0">
+            {opponents.left.map(seat => renderSeat(seat, true))}
           </div>
 
-          {/* Discard Pile */}
-          <div className="relative">
-            <AnimatePresence mode="popLayout">
-              {topDiscard && (
-                <motion.div
-                  key={topDiscard.id}
-                  initial={{ scale: 0.8, opacity: 0, rotate: -10 }}
-                  animate={{ scale: 1, opacity: 1, rotate: 0 }}
-                  className="w-24 h-36 md:w-32 md:h-48 bg-white rounded-xl border-4 border-white/20 shadow-2xl flex flex-col p-3 text-zinc-900 relative"
-                >
-                  <div className={`text-xl md:text-2xl font-bold leading-none ${CARD_COLORS[topDiscard.suit]}`}>
-                    {topDiscard.rank}
-                  </div>
-                  <div className={`w-4 h-4 md:w-6 md:h-6 ${CARD_COLORS[topDiscard.suit]}`}>
-                    {SUIT_ICONS[topDiscard.suit]}
+          {/* Center Area (Deck & Discard) */}
+          <div className="flex items-center gap-8 md:gap-16 my-8">
+            {/* Draw Pile */}
+            <div className="relative group">
+              <button 
+                onClick={handleDraw}
+                disabled={!(mayDraw || (mayPass && !view.canDraw)) || busy}
+                aria-label={t.table.drawPile(view && !view.canDraw ? 'pass' : 'draw', view?.pendingDraw ?? 0, view?.deckSize ?? 0)}
+                className={`relative w-24 h-36 md:w-32 md:h-48 bg-emerald-600 rounded-xl border-4 shadow-2xl flex items-center justify-center transition-transform hover:scale-105 active:scale-95 disabled:opacity-50 disabled:hover:scale-100 ${moveHint && (moveHint.action.type === 'draw' || (moveHint.action.type === 'pass' && !view.canDraw)) ? 'border-amber-400' : 'border-white/20'}`}
+              >
+                <div className="text-white font-bold text-2xl opacity-20 select-none">DECK</div>
+                {!!view?.pendingDraw && (
+                  <div className="absolute -top-3 left-1/2 -translate-x-1/2 bg-red-500 px-2 py-0.5 rounded-md text-xs font-bold shadow-lg">
+                    +{view.pendingDraw}
                   </div>
+                )}
+                <div className="absolute -bottom-2 -right-2 bg-zinc-900 px-2 py-1 rounded-md text-xs font-mono border border-white/10">
+                  {view?.deckSize ?? 0}
+                </div>
+              </button>
+              {/* Stack effect */}
+              <div className="absolute -z-10 top-1 left-1 w-full h-full bg-emerald-700 rounded-xl border-4 border-white/10" />
+              <div className="absolute -z-20 top-2 left-2 w-full h-full bg-emerald-800 rounded-xl border-4 border-white/10" />
+            </div>
+
+            {/* Discard Pile */}
+            <div
+              className="relative"
+              role="img"
+              aria-label={t.table.discardPile(topDiscard && t.card(topDiscard), currentSuit && currentSuit !== topDiscard?.suit ? t.suit[currentSuit] : null)}
+            >
+              <AnimatePresence mode="popLayout">
+                {topDiscard && (
+                  <motion.div
+                    key={topDiscard.id}
+                    initial={{ scale: 0.8, opacity: 0, rotate: -10 }}
+                    animate={{ scale: 1, opacity: 1, rotate: 0 }}
+                    className="w-24 h-36 md:w-32 md:h-48 bg-white rounded-xl border-4 border-white/20 shadow-2xl flex flex-col p-3 text-zinc-900 relative"
+                  >
+                    <div className={`text-xl md:text-2xl font-bold leading-none ${cardColor(topDiscard)}`}>
+                      {cardLabel(topDiscard)}
+                    </div>
+                    <div className={`w-4 h-4 md:w-6 md:h-6 ${cardColor(topDiscard)}`}>
+                      {cardIcon(topDiscard)}
+                    </div>
                   
-                  <div className="absolute inset-0 flex items-center justify-center opacity-10 p-6">
-                    {SUIT_ICONS[topDiscard.suit]}
-                  </div>
+                    <div className="absolute inset-0 flex items-center justify-center opacity-10 p-6">
+                      {cardIcon(topDiscard)}
+                    </div>
 
-                  <div className={`absolute bottom-3 right-3 text-xl md:text-2xl font-bold leading-none rotate-180 ${CARD_COLORS[topDiscard.suit]}`}>
-                    {topDiscard.rank}
+                    <div className={`absolute bottom-3 right-3 text-xl md:text-2xl font-bold leading-none rotate-180 ${cardColor(topDiscard)}`}>
+                      {cardLabel(topDiscard)}
+                    </div>
+                  </motion.div>
+                )}
+              </AnimatePresence>
+            
+              {/* Current Suit Indicator (for Aces) */}
+              {currentSuit && (
+                <motion.div 
+                  initial={{ scale: 0 }}
+                  animate={{ scale: 1 }}
+                  className="absolute -top-6 -right-6 w-12 h-12 bg-zinc-800 rounded-full border-2 border-white/20 flex items-center justify-center shadow-lg p-2"
+                >
+                  <div className={CARD_COLORS[currentSuit]}>
+                    {SUIT_ICONS[currentSuit]}
                   </div>
                 </motion.div>
               )}
-            </AnimatePresence>
-            
-            {/* Current Suit Indicator (for Aces) */}
-            {currentSuit && (
-              <motion.div 
-                initial={{ scale: 0 }}
-                animate={{ scale: 1 }}
-                className="absolute -top-6 -right-6 w-12 h-12 bg-zinc-800 rounded-full border-2 border-white/20 flex items-center justify-center shadow-lg p-2"
-              >
-                <div className={CARD_COLORS[currentSuit]}>
-                  {SUIT_ICONS[currentSuit]}
-                </div>
-              </motion.div>
-            )}
+            </div>
+          </div>
+
+          {/* Opponents on the right */}
+          <div className="flex flex-col gap-6 min-w-0">
+            {opponents.right.map(seat => renderSeat(seat, true))}
           </div>
         </div>
 
@@ -379,44 +931,90 @@ export default function App() {
           <div className="flex items-center gap-4 w-full max-w-md">
             <div className="flex-1 h-px bg-white/10" />
             <div className="flex items-center gap-2 px-4 py-1.5 bg-emerald-500/10 rounded-full border border-emerald-500/20">
-              <div className={`w-2 h-2 rounded-full ${turn === 'player' ? 'bg-emerald-500 animate-pulse' : 'bg-zinc-600'}`} />
-              <span className="text-sm font-medium text-emerald-400">Your Hand ({playerHand.length})</span>
+              <div className={`w-2 h-2 rounded-full ${isMyTurn ? 'bg-emerald-500 animate-pulse' : 'bg-zinc-600'}`} />
+              <span className="text-sm font-medium text-emerald-400">
+                {/* The hand shown is this player's own unless several players share the screen. */}
+                {t.table.hand(seats[viewSeat]?.name, !hotSeat, playerHand.length)}
+              </span>
             </div>
+            {isMyTurn && !showSuitPicker && (
+              <button
+                onClick={handlePass}
+                disabled={!mayPass || busy}
+                title={t.table.passTitle(mayPass)}
+                className="px-4 py-1.5 bg-white/5 hover:bg-white/10 border border-white/10 rounded-full text-sm font-medium transition-colors disabled:opacity-30"
+              >
+                {t.table.pass} <kbd className="ml-1 px-1.5 py-0.5 text-xs font-mono bg-white/10 rounded">P</kbd>
+              </button>
+            )}
             <div className="flex-1 h-px bg-white/10" />
           </div>
+          {isMyTurn && view.hasDrawn && view.rules.drawPolicy === 'upTo' && (
+            <p className="-mt-3 text-xs text-zinc-400">
+              {t.table.drawnOf(view.drawsThisTurn, view.rules.drawLimit)}
+            </p>
+          )}
 
-          <div className="flex flex-wrap justify-center gap-2 md:gap-4 max-w-full overflow-x-auto pb-8 px-4">
+          {hints && (
+            <HintBar
+              hint={moveHint}
+              card={pointedCard ? { card: pointedCard, hint: explainCard(view!, pointedCard) } : null}
+            />
+          )}
+
+          <p className="sr-only">{t.table.handHelp}</p>
+          <div
+            ref={handRef}
+            role="toolbar"
+            aria-label={t.table.handLabel(seats[viewSeat]?.name, playerHand.length)}
+            onKeyDown={moveHandFocus}
+            className="flex flex-wrap justify-center gap-2 md:gap-4 max-w-full overflow-x-auto pb-8 px-4"
+          >
             <AnimatePresence>
-              {playerHand.map((card) => {
-                const playable = canPlay(card) && turn === 'player' && gameStatus === 'playing';
+              {playerHand.map((card, index) => {
+                const playable = canPlay(card) && isMyTurn && !busy;
+                const hinted = card.id === hintedCardId;
                 return (
                   <motion.button
                     key={card.id}
+                    data-card
+                    tabIndex={index === Math.min(handFocus, playerHand.length - 1) ? 0 : -1}
+                    onFocus={() => { setHandFocus(index); setHintCard(card); }}
+                    onBlur={() => setHintCard(null)}
+                    onMouseEnter={() => setHintCard(card)}
+                    onMouseLeave={() => setHintCard(null)}
+                    aria-label={`${t.table.cardLabel(t.card(card), playable, hinted)}${hints ? `. ${explainCard(view!, card).reason(t)}` : ''}`}
                     layout
                     initial={{ y: 50, opacity: 0 }}
                     animate={{ y: 0, opacity: 1 }}
                     exit={{ y: -100, opacity: 0, scale: 0.5 }}
                     whileHover={playable ? { y: -20, scale: 1.05 } : {}}
                     onClick={() => handlePlayerPlay(card)}
-                    disabled={!playable}
+                    aria-disabled={!playable}
                     className={`
-                      w-16 h-24 md:w-24 md:h-36 bg-white rounded-lg border-2 shadow-xl flex flex-col p-1.5 md:p-2 text-zinc-900 relative transition-all
+                      w-16 h-24 md:w-24 md:h-36 bg-white rounded-lg border-2 shadow-xl flex flex-col p-1.5 md:p-2 text-zinc-900 relative transition-all focus:outline-none focus-visible:ring-4 focus-visible:ring-emerald-400
                       ${playable ? 'cursor-pointer border-emerald-400/50 hover:shadow-emerald-500/20' : 'opacity-60 grayscale-[0.5] border-transparent cursor-not-allowed'}
+                      ${hinted ? 'ring-4 ring-amber-400' : ''}
                     `}
                   >
-                    <div className={`text-sm md:text-lg font-bold leading-none ${CARD_COLORS[card.suit]}`}>
-                      {card.rank}
+                    {hinted && (
+                      <div className="absolute -top-3 left-1/2 -translate-x-1/2 bg-amber-400 rounded-full p-1 shadow-lg">
+                        <Lightbulb className="w-3 h-3 text-zinc-900" />
+                      </div>
+                    )}
+                    <div className={`text-sm md:text-lg font-bold leading-none ${cardColor(card)}`}>
+                      {cardLabel(card)}
                     </div>
-                    <div className={`w-3 h-3 md:w-4 md:h-4 ${CARD_COLORS[card.suit]}`}>
-                      {SUIT_ICONS[card.suit]}
+                    <div className={`w-3 h-3 md:w-4 md:h-4 ${cardColor(card)}`}>
+                      {cardIcon(card)}
                     </div>
                     
                     <div className="absolute inset-0 flex items-center justify-center opacity-5 p-4">
-                      {SUIT_ICONS[card.suit]}
+                      {cardIcon(card)}
                     </div>
 
-                    <div className={`absolute bottom-1.5 right-1.5 md:bottom-2 md:right-2 text-sm md:text-lg font-bold leading-none rotate-180 ${CARD_COLORS[card.suit]}`}>
-                      {card.rank}
+                    <div className={`absolute bottom-1.5 right-1.5 md:bottom-2 md:right-2 text-sm md:text-lg font-bold leading-none rotate-180 ${cardColor(card)}`}>
+                      {cardLabel(card)}
                     </div>
                   </motion.button>
                 );
@@ -427,20 +1025,53 @@ export default function App() {
       </main>
 
       {/* Message Bar */}
-      <footer className="p-4 bg-black/40 border-t border-white/10 flex items-center justify-center gap-3">
-        {isAiThinking ? (
+      <footer className="p-4 bg-black/40 border-t border-white/10 flex flex-wrap items-center justify-center gap-x-6 gap-y-2">
+        <div className="flex items-center gap-2">
+          <Info className="w-4 h-4 text-emerald-500" />
+          {/* Every move, the AI's included, is described here, so screen readers hear them as they happen. */}
+          <span role="status" aria-live="polite" className="text-sm font-medium">{message(t)}</span>
+        </div>
+        {match && gameStatus === 'playing' && (
+          <div className="flex items-center gap-2" title={t.footer.matchTotalsTitle(match.config.targetScore)}>
+            <ListOrdered className="w-4 h-4 text-emerald-500" />
+            <span className="text-sm font-mono text-zinc-300">
+              {t.footer.matchTotals(match.hands.length + 1, seats.map((seat, index) => `${seat.name} ${match.totals[index]}`).join(' · '), match.config.targetScore)}
+            </span>
+          </div>
+        )}
+        {isAiThinking && (
           <div className="flex items-center gap-2">
             <RefreshCw className="w-4 h-4 text-emerald-500 animate-spin" />
-            <span className="text-sm text-zinc-400">AI is calculating its next move...</span>
+            <span className="text-sm text-zinc-400">{t.footer.thinking(seats[turn].name)}</span>
           </div>
-        ) : (
+        )}
+        {turnEndsAt !== null && gameStatus === 'playing' && (
           <div className="flex items-center gap-2">
-            <Info className="w-4 h-4 text-emerald-500" />
-            <span className="text-sm font-medium">{message}</span>
+            <Timer className="w-4 h-4 text-amber-400" />
+            <span className="text-sm font-mono text-zinc-300">
+              {seats[turn].name}: {Math.max(0, Math.ceil((turnEndsAt - now) / 1000))}s
+            </span>
+          </div>
+        )}
+        {talk && gameStatus !== 'start' && (
+          <div className="flex items-center gap-2">
+            <MessageSquare className="w-4 h-4 text-amber-400" />
+            <span className="text-sm italic text-zinc-300">{seats[talk.seat].name}: “{talk.text}”</span>
           </div>
         )}
       </footer>
 
+      {/* Hot-seat Privacy Screen */}
+      <AnimatePresence>
+        {covered && (
+          <PrivacyScreen
+            name={seats[turn].name}
+            ai={seats[turn].kind === 'ai'}
+            onReveal={() => turn === viewSeat && setRevealed(viewSeat)}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Suit Picker Modal */}
       <AnimatePresence>
         {showSuitPicker && (
@@ -455,23 +1086,43 @@ export default function App() {
               animate={{ scale: 1, y: 0 }}
               className="bg-zinc-900 border border-white/10 p-8 rounded-3xl shadow-2xl max-w-md w-full text-center"
             >
-              <h2 className="text-2xl font-bold mb-2">Wild Ace!</h2>
-              <p className="text-zinc-400 mb-8">Choose the next suit to play</p>
+              <Dialog labelledBy="suit-picker-title">
+                <h2 id="suit-picker-title" className="text-2xl font-bold mb-2">
+                  {t.suitPicker.title(view?.pendingWild?.rank ?? null)}
+                </h2>
+                {hotSeat && <p className="text-sm font-medium text-emerald-400 mb-1">{t.suitPicker.forSeat(seats[viewSeat].name)}</p>}
+                <p className={`text-zinc-400 ${suitHint ? 'mb-4' : 'mb-8'}`}>
+                  {t.suitPicker.prompt(view?.pendingWild?.rank === JOKER)}
+                </p>
+                {suitHint && (
+                  <p className="flex items-start gap-2 mb-6 text-sm text-left text-zinc-300">
+                    <Lightbulb className="w-4 h-4 mt-0.5 shrink-0 text-amber-400" />
+                    <span><span className="capitalize">{t.suit[suitHint.suit]}</span>: {suitHint.reason(t)}</span>
+                  </p>
+                )}
               
-              <div className="grid grid-cols-2 gap-4">
-                {SUITS.map((suit) => (
-                  <button
-                    key={suit}
-                    onClick={() => handleSuitPick(suit)}
-                    className="flex flex-col items-center gap-3 p-6 bg-white/5 hover:bg-white/10 border border-white/10 rounded-2xl transition-all group"
-                  >
-                    <div className={`w-12 h-12 group-hover:scale-110 transition-transform ${CARD_COLORS[suit]}`}>
-                      {SUIT_ICONS[suit]}
-                    </div>
-                    <span className="capitalize font-medium text-zinc-300">{suit}</span>
-                  </button>
-                ))}
-              </div>
+                <div className="grid grid-cols-2 gap-4">
+                  {SUITS.map((suit) => (
+                    <button
+                      key={suit}
+                      onClick={() => handleSuitPick(suit)}
+                      disabled={busy}
+                      aria-label={`${t.suit[suit]}${suit === suitHint?.suit ? ` (${t.suitPicker.suggested})` : ''}`}
+                      className={`relative flex flex-col items-center gap-3 p-6 bg-white/5 hover:bg-white/10 border rounded-2xl transition-all group ${suit === suitHint?.suit ? 'border-amber-400' : 'border-white/10'}`}
+                    >
+                      {suit === suitHint?.suit && (
+                        <span className="absolute top-2 right-2 text-[10px] uppercase tracking-widest font-bold text-amber-400">{t.suitPicker.suggested}</span>
+                      )}
+                      <div className={`w-12 h-12 group-hover:scale-110 transition-transform ${CARD_COLORS[suit]}`}>
+                        {SUIT_ICONS[suit]}
+                      </div>
+                      <span className="capitalize font-medium text-zinc-300">
+                        {t.suit[suit]} <kbd className="ml-1 px-1.5 py-0.5 text-xs font-mono bg-white/10 rounded">{suit[0].toUpperCase()}</kbd>
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              </Dialog>
             </motion.div>
           </motion.div>
         )}
@@ -479,7 +1130,7 @@ export default function App() {
 
       {/* Game Over Modal */}
       <AnimatePresence>
-        {gameStatus !== 'playing' && (
+        {gameStatus !== 'playing' && gameStatus !== 'start' && (
           <motion.div 
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
@@ -491,28 +1142,118 @@ export default function App() {
               animate={{ scale: 1, y: 0 }}
               className="bg-zinc-900 border border-white/10 p-10 rounded-3xl shadow-2xl max-w-md w-full text-center"
             >
-              <div className={`w-20 h-20 mx-auto mb-6 rounded-2xl flex items-center justify-center ${gameStatus === 'won' ? 'bg-emerald-500 shadow-emerald-500/20' : 'bg-red-500 shadow-red-500/20'} shadow-lg`}>
-                {gameStatus === 'won' ? <Trophy className="w-10 h-10 text-white" /> : <AlertCircle className="w-10 h-10 text-white" />}
-              </div>
+              <Dialog labelledBy="game-over-title">
+                <div className={`w-20 h-20 mx-auto mb-6 rounded-2xl flex items-center justify-center ${resultStatus === 'won' ? 'bg-emerald-500 shadow-emerald-500/20' : resultStatus === 'tied' || resultStatus === 'survived' ? 'bg-zinc-600 shadow-zinc-600/20' : 'bg-red-500 shadow-red-500/20'} shadow-lg`}>
+                  {resultStatus === 'won' ? <Trophy className="w-10 h-10 text-white" /> : resultStatus === 'tied' || resultStatus === 'survived' ? <Scale className="w-10 h-10 text-white" /> : <AlertCircle className="w-10 h-10 text-white" />}
+                </div>
               
-              <h2 className="text-3xl font-bold mb-2">
-                {gameStatus === 'won' ? 'Victory!' : 'Defeat!'}
-              </h2>
-              <p className="text-zinc-400 mb-8">
-                {message}
-              </p>
+                <h2 id="game-over-title" className="text-3xl font-bold mb-2">
+                  {match?.status === 'playing'
+                    ? t.gameOver.handOver(match.hands.length)
+                    : match
+                      ? hotSeat ? t.gameOver.matchOver : resultStatus === 'won' ? t.gameOver.matchWon : resultStatus === 'tied' ? t.gameOver.matchShared : t.gameOver.matchLost
+                      : hotSeat && view
+                        ? view.loser !== null ? t.gameOver.seatLoses(seats[view.loser].name) : view.winner !== null ? t.gameOver.seatWins(seats[view.winner].name) : t.gameOver.stalemate
+                      : resultStatus === 'won' ? t.gameOver.victory : resultStatus === 'tied' ? t.gameOver.stalemate : resultStatus === 'survived' ? t.gameOver.survived : t.gameOver.defeat}
+                </h2>
+                <p className="text-zinc-400 mb-8">
+                  {message(t)}
+                  {match?.status === 'over' && ` ${t.gameOver.matchResult(match.winners.map(seat => seats[seat].name), match.totals[match.winners[0]], match.hands.length)}`}
+                </p>
+
+                {match && (
+                  <div className="mb-8">
+                    <Scoreboard match={match} seats={seats} viewSeat={viewSeat} />
+                  </div>
+                )}
               
-              <button
-                onClick={initGame}
-                className="w-full py-4 bg-emerald-500 hover:bg-emerald-400 text-white font-bold rounded-xl transition-all shadow-lg shadow-emerald-500/20 flex items-center justify-center gap-2"
-              >
-                <RefreshCw className="w-5 h-5" />
-                Play Again
-              </button>
+                {match?.status === 'playing' ? (
+                  <button
+                    onClick={playNextHand}
+                    disabled={busy}
+                    className="w-full py-4 bg-emerald-500 hover:bg-emerald-400 text-white font-bold rounded-xl transition-all shadow-lg shadow-emerald-500/20 flex items-center justify-center gap-2"
+                  >
+                    <ListOrdered className="w-5 h-5" />
+                    {t.gameOver.nextHand}
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => initGame()}
+                    className="w-full py-4 bg-emerald-500 hover:bg-emerald-400 text-white font-bold rounded-xl transition-all shadow-lg shadow-emerald-500/20 flex items-center justify-center gap-2"
+                  >
+                    <RefreshCw className="w-5 h-5" />
+                    {ticket ? t.table.leaveRoom : match ? t.gameOver.newMatch : t.gameOver.playAgain}
+                  </button>
+                )}
+                <button
+                  onClick={exportReplay}
+                  className="w-full mt-3 py-3 bg-white/5 hover:bg-white/10 text-zinc-300 font-medium rounded-xl transition-all flex items-center justify-center gap-2"
+                >
+                  <Download className="w-4 h-4" />
+                  {t.table.exportReplay}
+                </button>
+                {session?.daily && dailyResults[session.daily] && (
+                  <div className="mt-3">
+                    <CopyDailyResult day={session.daily} results={dailyResults} />
+                  </div>
+                )}
+                <button
+                  onClick={openReview}
+                  className="w-full mt-3 py-3 bg-white/5 hover:bg-white/10 text-zinc-300 font-medium rounded-xl transition-all flex items-center justify-center gap-2"
+                >
+                  <SearchCheck className="w-4 h-4" />
+                  {t.gameOver.reviewGame}
+                </button>
+                {session?.practice && !match && (
+                  <button
+                    onClick={takeBack}
+                    disabled={busy}
+                    className="w-full mt-3 py-3 bg-white/5 hover:bg-white/10 text-zinc-300 font-medium rounded-xl transition-all flex items-center justify-center gap-2"
+                  >
+                    <Undo2 className="w-4 h-4" />
+                    {t.gameOver.takeBack}
+                  </button>
+                )}
+              </Dialog>
             </motion.div>
           </motion.div>
         )}
       </AnimatePresence>
+
+      {/* Move Log */}
+      <AnimatePresence>
+        {showLog && gameStatus !== 'start' && <MoveLog entries={log} seats={seats} viewSeat={viewSeat} onClose={() => setShowLog(false)} />}
+      </AnimatePresence>
+
+      {/* Post-game Review */}
+      <AnimatePresence>
+        {review && <ReviewPanel review={review} seats={seats} onClose={() => setReview(null)} />}
+      </AnimatePresence>
+
+      {/* Leaderboard */}
+      <AnimatePresence>
+        {showStats && <StatsPanel onClose={() => setShowStats(false)} />}
+      </AnimatePresence>
+
+      {/* Tutorial */}
+      <AnimatePresence>
+        {showTutorial && <Tutorial onClose={() => setShowTutorial(false)} />}
+      </AnimatePresence>
+
+      {/* AI vs AI */}
+      <AnimatePresence>
+        {showAutoplay && (
+          <Autoplay table={table} rules={rules} delay={aiDelay} onDelayChange={changeAiDelay} onClose={() => setShowAutoplay(false)} />
+        )}
+      </AnimatePresence>
+
+      {/* Replay Viewer */}
+      <AnimatePresence>
+        {replay && (
+          <ReplayViewer frames={replay.frames} seed={replay.seed} onClose={() => setReplay(null)} />
+        )}
+      </AnimatePresence>
     </div>
+    </CatalogContext.Provider>
   );
 }
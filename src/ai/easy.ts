@@ -0,0 +1,14 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AiStrategy, pickRandom } from './strategy';
+
+/** Picks uniformly among the legal actions, suit choices included. */
+export const easy: AiStrategy = {
+  level: 'easy',
+  label: 'Easy',
+  description: 'Plays any legal move at random.',
+  chooseAction: (view, rng) => pickRandom(view.legal, rng),
+};
@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Card, createDeck, shuffleDeck } from '../types';
+import { Rng } from '../random';
+import { GameAction, GameState, applyAction, legalActions } from '../engine';
+import { PlayerView, getPlayerView } from '../view';
+import { AiStrategy, pickRandom } from './strategy';
+import { normal } from './normal';
+
+/** Hidden deals sampled per decision; every candidate move is scored on each. */
+export const SAMPLES = 24;
+/** Actions simulated per playout before the position is scored heuristically. */
+export const PLAYOUT_LIMIT = 240;
+/** Chance that a simulated seat plays a random legal move instead of the Normal one. */
+const EXPLORATION = 0.2;
+
+/**
+ * Cards the viewer has not seen: every deck in play minus their own hand and the
+ * face-up discard pile. They are somewhere in the opponents' hands or the deck.
+ */
+export const unseenCards = (view: PlayerView): Card[] => {
+  const seen = new Set([...view.hand, ...view.discardPile].map((c) => c.id));
+  return createDeck(view.rules.decks, view.rules.jokers).filter((c) => !seen.has(c.id));
+};
+
+/** Builds one full game consistent with everything the viewer knows. */
+export const determinize = (view: PlayerView, rng: Rng): GameState => {
+  const unseen = shuffleDeck(unseenCards(view), rng);
+  let next = 0;
+  const hands = view.handCounts.map((count, seat) => {
+    if (seat === view.seat) return view.hand;
+    const hand = unseen.slice(next, next + count);
+    next += count;
+    return hand;
+  });
+
+  return {
+    seed: Math.floor(rng() * 4294967296),
+    moves: [],
+    table: { seats: view.seats, playToLast: view.playToLast },
+    rules: view.rules,
+    deck: unseen.slice(next),
+    hands,
+    discardPile: view.discardPile,
+    currentSuit: view.currentSuit,
+    turn: view.turn,
+    direction: view.direction,
+    pendingWild: view.pendingWild,
+    pendingDraw: view.pendingDraw,
+    hasDrawn: view.hasDrawn,
+    drawsThisTurn: view.drawsThisTurn,
+    reshuffles: 0,
+    stuckPasses: view.stuckPasses,
+    out: view.out,
+    status: view.status,
+    loser: view.loser,
+    winner: view.winner,
+    endReason: view.endReason,
+  };
+};
+
+/** 1 for a win, 0 for a loss; unfinished games are judged on hand sizes. */
+const score = (state: GameState, seat: number): number => {
+  if (state.status === 'over') {
+    if (state.winner === seat) return 1;
+    if (state.loser === seat) return 0;
+    return state.loser === null && state.winner !== null ? 0.25 : 0.75;
+  }
+
+  const mine = state.hands[seat].length;
+  const others = state.hands.filter((_, i) => i !== seat).map((h) => h.length);
+  const avg = others.reduce((a, b) => a + b, 0) / others.length;
+  const lead = (mine - avg) / (mine + avg + 1);
+  return 0.5 + (state.rules.emptyHandLoses ? lead : -lead) / 2;
+};
+
+const playout = (start: GameState, seat: number, rng: Rng): number => {
+  let state = start;
+  for (let step = 0; step < PLAYOUT_LIMIT && state.status === 'playing'; step++) {
+    const action = rng() < EXPLORATION
+      ? pickRandom(legalActions(state), rng)
+      : normal.chooseAction(getPlayerView(state, state.turn), rng);
+    state = applyAction(state, action).state;
+  }
+  return score(state, seat);
+};
+
+/**
+ * Determinized Monte Carlo search: sample hidden deals from the unseen cards,
+ * try every legal move in each, play the rest out with a noisy Normal policy
+ * and keep the move with the best average result.
+ */
+export const hard: AiStrategy = {
+  level: 'hard',
+  label: 'Hard',
+  description: 'Tracks the cards it has seen and simulates hundreds of futures.',
+  chooseAction: (view, rng) => {
+    if (view.legal.length === 1) return view.legal[0];
+
+    const totals = view.legal.map(() => 0);
+    for (let sample = 0; sample < SAMPLES; sample++) {
+      const world = determinize(view, rng);
+      view.legal.forEach((action: GameAction, i) => {
+        totals[i] += playout(applyAction(world, action).state, view.seat, rng);
+      });
+    }
+
+    let best = 0;
+    totals.forEach((total, i) => {
+      if (total > totals[best]) best = i;
+    });
+    return view.legal[best];
+  },
+};
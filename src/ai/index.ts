@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Rng } from '../random';
+import { AiLevel, GameAction, GameState, SeatConfig, applyAction } from '../engine';
+import { getPlayerView } from '../view';
+import { AiStrategy } from './strategy';
+import { easy } from './easy';
+import { normal } from './normal';
+import { hard } from './hard';
+
+export type { AiStrategy } from './strategy';
+
+/**
+ * The Gemini seat as seen wherever a turn cannot wait on the network, such as
+ * the browser, simulations and Hard's playouts. At the table the server plays
+ * it through `planLlmTurn` (src/server/llm.ts), which keeps the model client
+ * and its API key out of the client bundle.
+ */
+const llm: AiStrategy = {
+  level: 'llm',
+  label: 'Gemini',
+  description: 'Asks Gemini for each move and chats at the table; plays like Normal when offline.',
+  chooseAction: normal.chooseAction,
+};
+
+export const AI_STRATEGIES: Record<AiLevel, AiStrategy> = { easy, normal, hard, llm };
+
+export const DEFAULT_AI_LEVEL: AiLevel = 'normal';
+
+export const strategyFor = (seat: SeatConfig): AiStrategy => AI_STRATEGIES[seat.level ?? DEFAULT_AI_LEVEL];
+
+/** Picks the next action for `seat`, which must be on turn. */
+export const chooseAiAction = (state: GameState, seat: number, rng: Rng = Math.random): GameAction =>
+  strategyFor(state.table.seats[seat]).chooseAction(getPlayerView(state, seat), rng);
+
+/** Plans every action `seat` takes until the turn moves on or the game ends; `strategy` defaults to the seat's own. */
+export const planAiTurn = (
+  state: GameState,
+  seat: number,
+  rng: Rng = Math.random,
+  strategy: AiStrategy = strategyFor(state.table.seats[seat]),
+): GameAction[] => {
+  const actions: GameAction[] = [];
+  let next = state;
+  while (next.status === 'playing' && next.turn === seat) {
+    const action = strategy.chooseAction(getPlayerView(next, seat), rng);
+    actions.push(action);
+    next = applyAction(next, action).state;
+  }
+  return actions;
+};
@@ -0,0 +1,40 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_RULES, RuleSet } from '../rules';
+import { GameState, applyAction } from '../engine';
+import { getPlayerView } from '../view';
+import { runSimulation } from '../simulate';
+import { stackedDeal } from '../testing';
+import { normal } from './normal';
+
+/** Seat 0 holds three hearts against the 7 of hearts, so any of them could be played. */
+const deal = (rules: Partial<RuleSet> = {}): GameState =>
+  stackedDeal(['3-hearts-1', '4-hearts-1', '5-hearts-1', '9-clubs-1', '10-clubs-1', 'J-clubs-1', '7-hearts-1'], 3, rules);
+
+describe('normal', () => {
+  it('draws rather than play from a small hand when emptying it loses', () => {
+    const state = deal();
+    expect(normal.chooseAction(getPlayerView(state, 0), Math.random)).toEqual({ type: 'draw', seat: 0 });
+  });
+
+  it('keeps the drawn card and passes', () => {
+    const { state } = applyAction(deal(), { type: 'draw', seat: 0 });
+    expect(normal.chooseAction(getPlayerView(state, 0), Math.random)).toEqual({ type: 'pass', seat: 0 });
+  });
+
+  it('plays from the same hand when emptying it wins', () => {
+    const state = deal({ emptyHandLoses: false });
+    expect(normal.chooseAction(getPlayerView(state, 0), Math.random).type).toBe('play');
+  });
+
+  it('beats Easy under the misère rule', () => {
+    const games = 60;
+    const report = runSimulation({ levels: ['normal', 'easy'], rules: DEFAULT_RULES, playToLast: false, firstSeed: 1, games, rotate: true });
+    expect(report.abandoned).toBe(0);
+    expect(report.entrants[0].wins).toBeGreaterThan(games * 0.8);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GameAction } from '../engine';
+import { effectOf } from '../rules';
+import { PlayerView } from '../view';
+import { AiStrategy, cardOf, isWildIn, strongestSuit } from './strategy';
+
+const find = (view: PlayerView, type: GameAction['type']) => view.legal.find((a) => a.type === type);
+
+/** Plays whose card leaves the most of the hand able to follow it, best first. */
+const byFollowUps = (view: PlayerView, plays: GameAction[]): GameAction[] => {
+  const followUps = (action: GameAction) => {
+    const card = cardOf(view, action)!;
+    return view.hand.filter((c) => c.id !== card.id && (c.suit === card.suit || c.rank === card.rank)).length;
+  };
+  return [...plays].sort((a, b) => followUps(b) - followUps(a));
+};
+
+/** Under the misère rule a hand this small is held: Normal draws rather than play from it. */
+const MISERE_HOLD_SIZE = 3;
+
+/**
+ * Under the misère rule: take every penalty, keep drawn cards and, once the
+ * hand is down to `MISERE_HOLD_SIZE`, draw instead of playing while the deck
+ * has a card to give. Wild cards are only played when no plain card fits.
+ * Refilling from the live deck only, never a reshuffle, means two of these
+ * still run the deck dry and the game ends.
+ */
+const chooseMisere = (view: PlayerView, plays: GameAction[]): GameAction | undefined => {
+  const draw = find(view, 'draw');
+  const pass = find(view, 'pass');
+
+  if (view.pendingDraw > 0) return draw ?? plays[0] ?? pass;
+  if (view.hasDrawn) return pass;
+  if (view.hand.length <= MISERE_HOLD_SIZE && view.deckSize > 0 && draw) return draw;
+
+  const plain = byFollowUps(view, plays.filter((a) => !isWildIn(view, cardOf(view, a)!)));
+  return plain[0] ?? plays[0] ?? draw ?? pass;
+};
+
+/** When emptying your hand wins: shed action cards first, save wilds, play what you draw. */
+const chooseShedding = (view: PlayerView, plays: GameAction[]): GameAction | undefined => {
+  const byPriority = byFollowUps(view, plays).sort((a, b) => {
+    const rank = (action: GameAction) => {
+      const effect = effectOf(view.rules, cardOf(view, action)!.rank);
+      return effect === 'wild' ? 2 : effect ? 0 : 1;
+    };
+    return rank(a) - rank(b);
+  });
+  return byPriority[0] ?? find(view, 'draw') ?? find(view, 'pass');
+};
+
+export const normal: AiStrategy = {
+  level: 'normal',
+  label: 'Normal',
+  description: 'Holds on to its last few cards and saves wild cards for emergencies.',
+  chooseAction: (view) => {
+    if (view.pendingWild) return { type: 'chooseSuit', seat: view.seat, suit: strongestSuit(view) };
+
+    const plays = view.legal.filter((a) => a.type === 'play');
+    const choice = view.rules.emptyHandLoses ? chooseMisere(view, plays) : chooseShedding(view, plays);
+    return choice ?? view.legal[0];
+  },
+};
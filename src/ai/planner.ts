@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GameAction, GameState } from '../engine';
+
+/** Plans AI turns in a Web Worker, so Hard's playouts never hold up the page. */
+export interface TurnPlanner {
+  /** Every action the seat on turn in `state` takes until its turn ends. */
+  plan(state: GameState): Promise<GameAction[]>;
+  /** Stops the worker; plans still waiting are never answered. */
+  dispose(): void;
+}
+
+type PlanReply = { actions: GameAction[] } | { error: string };
+
+/** One worker, started on first use and again after it fails; plans waiting on a failed worker are rejected. */
+export const createTurnPlanner = (): TurnPlanner => {
+  let worker: Worker | null = null;
+  // The worker answers in the order it was asked.
+  const waiting: { resolve: (actions: GameAction[]) => void; reject: (err: Error) => void }[] = [];
+
+  // A worker that fails to load, or throws outside a plan, answers nothing further.
+  const fail = (message: string) => {
+    worker?.terminate();
+    worker = null;
+    waiting.splice(0).forEach((plan) => plan.reject(new Error(message)));
+  };
+
+  const start = () => {
+    const next = new Worker(new URL('./worker.ts', import.meta.url), { type: 'module' });
+    next.onmessage = (e: MessageEvent<PlanReply>) => {
+      const plan = waiting.shift();
+      if ('error' in e.data) plan?.reject(new Error(e.data.error));
+      else plan?.resolve(e.data.actions);
+    };
+    next.onerror = (e) => {
+      e.preventDefault();
+      fail(e.message || 'The AI worker failed.');
+    };
+    next.onmessageerror = () => fail('The AI worker sent a plan that could not be read.');
+    return next;
+  };
+
+  return {
+    plan: (state) =>
+      new Promise((resolve, reject) => {
+        worker ??= start();
+        waiting.push({ resolve, reject });
+        worker.postMessage(state);
+      }),
+    dispose: () => worker?.terminate(),
+  };
+};
@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Card, SUITS, Suit } from '../types';
+import { Rng } from '../random';
+import { AiLevel, GameAction } from '../engine';
+import { effectOf } from '../rules';
+import { PlayerView } from '../view';
+
+/**
+ * An AI opponent. Strategies only ever see a `PlayerView`, never the full
+ * game state, and must return one of `view.legal`.
+ */
+export interface AiStrategy {
+  level: AiLevel;
+  label: string;
+  description: string;
+  chooseAction(view: PlayerView, rng: Rng): GameAction;
+}
+
+export const isWildIn = (view: PlayerView, card: Card): boolean => effectOf(view.rules, card.rank) === 'wild';
+
+/** Card object behind a `play` action, looked up in the viewer's hand. */
+export const cardOf = (view: PlayerView, action: GameAction): Card | undefined =>
+  action.type === 'play' ? view.hand.find((c) => c.id === action.cardId) : undefined;
+
+/** The suit the viewer holds most of, ignoring wild cards. */
+export const strongestSuit = (view: PlayerView): Suit => {
+  const counts = new Map<Suit, number>();
+  view.hand.filter((c) => !isWildIn(view, c)).forEach((c) => counts.set(c.suit, (counts.get(c.suit) ?? 0) + 1));
+  let best: Suit = view.currentSuit ?? SUITS[0];
+  let bestCount = 0;
+  SUITS.forEach((suit) => {
+    if ((counts.get(suit) ?? 0) > bestCount) {
+      best = suit;
+      bestCount = counts.get(suit)!;
+    }
+  });
+  return best;
+};
+
+export const pickRandom = <T>(items: T[], rng: Rng): T => items[Math.floor(rng() * items.length)];
@@ -0,0 +1,16 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GameState } from '../engine';
+import { planAiTurn } from './index';
+
+/** Worker entry for `createTurnPlanner`: answers each posted game with the plan for the seat on turn. */
+self.onmessage = (e: MessageEvent<GameState>) => {
+  try {
+    self.postMessage({ actions: planAiTurn(e.data, e.data.turn) });
+  } catch (err) {
+    self.postMessage({ error: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,171 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AiLevel, EndReason, GameAction, SeatKind, TableConfig } from './engine';
+import { RuleSet } from './rules';
+import { MatchConfig, MatchState } from './match';
+import { DailyResult } from './daily';
+import { GameRecord } from './replay';
+import { PlayerEvent, PlayerView } from './view';
+
+/** Returned once when a game is created; each token authorises one human seat. */
+export interface CreatedGame {
+  id: string;
+  tokens: Record<number, string>;
+  view: PlayerView;
+  match: MatchState | null;
+}
+
+/** The caller's view after a move, plus what the move did as the caller may see it. */
+export interface MoveResult {
+  view: PlayerView;
+  events: PlayerEvent[];
+  /** Table talk from an LLM seat, if it said anything. */
+  talk?: string | null;
+  /** Match scores after the move, for local games. */
+  match?: MatchState | null;
+}
+
+/** A seat in an online room as everyone at the table sees it. */
+export interface RoomSeatInfo {
+  name: string;
+  kind: SeatKind;
+  level?: AiLevel;
+  /** A human seat nobody has joined yet; it goes to the AI when the game starts. */
+  open: boolean;
+  connected: boolean;
+}
+
+export interface RoomInfo {
+  code: string;
+  hostSeat: number;
+  seats: RoomSeatInfo[];
+  started: boolean;
+}
+
+/** Proof of a seat in a room; kept by the client so it can reconnect. */
+export interface RoomTicket {
+  code: string;
+  seat: number;
+  token: string;
+}
+
+export type ClientMessage =
+  | { type: 'hello'; code: string; token: string }
+  | { type: 'start' }
+  | { type: 'move'; action: GameAction }
+  | { type: 'leave' };
+
+export type ServerMessage =
+  | { type: 'room'; room: RoomInfo; seat: number }
+  | {
+      type: 'state';
+      view: PlayerView;
+      events: PlayerEvent[];
+      talk: { seat: number; text: string } | null;
+      /** Milliseconds the seat on turn has left, or null when nobody is on the clock. */
+      timeLeft: number | null;
+    }
+  | { type: 'error'; message: string; fatal: boolean };
+
+/** How a finished game went for one seat. */
+export type SeatOutcome = 'won' | 'lost' | 'tied' | 'survived';
+
+export interface WinLoss {
+  games: number;
+  wins: number;
+  losses: number;
+}
+
+export interface LeaderboardEntry extends WinLoss {
+  name: string;
+}
+
+export interface GameSummary {
+  id: number;
+  finishedAt: string;
+  seed: number;
+  moveCount: number;
+  endReason: EndReason;
+  online: boolean;
+  seats: { name: string; kind: SeatKind; level: AiLevel | null; finalHand: number; outcome: SeatOutcome }[];
+}
+
+export interface PlayerProfile extends WinLoss {
+  name: string;
+  /** Results in games with at least one AI seat of each difficulty. */
+  vsAi: Partial<Record<AiLevel, WinLoss>>;
+  recent: GameSummary[];
+}
+
+export class ApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+const request = async <T>(path: string, token: string | null, init: RequestInit = {}): Promise<T> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (token) headers.Authorization = `Bearer ${token}`;
+  let response: Response;
+  try {
+    response = await fetch(`/api${path}`, { ...init, headers });
+  } catch {
+    throw new ApiError('Could not reach the game server.', 0);
+  }
+  const body = await response.json().catch(() => null);
+  if (!response.ok) throw new ApiError(body?.error ?? `Request failed with status ${response.status}.`, response.status);
+  return body as T;
+};
+
+/** Practice games allow undo and are not recorded on the leaderboard; a match config plays hands until its target score. */
+export const createRemoteGame = (table: TableConfig, rules: RuleSet, practice: boolean, match: MatchConfig | null) =>
+  request<CreatedGame>('/games', null, { method: 'POST', body: JSON.stringify({ table, rules, practice, match }) });
+
+/** Deals today's challenge; the server refuses a date that is not its today, or a player who has already had it. */
+export const createDailyGame = (daily: string, player: string) =>
+  request<CreatedGame>('/games', null, { method: 'POST', body: JSON.stringify({ daily, player }) });
+
+/** Every daily challenge `player` has played, by date. */
+export const fetchDailyResults = (player: string) =>
+  request<Record<string, DailyResult>>(`/daily/${encodeURIComponent(player)}`, null);
+
+export const fetchView = (id: string, token: string) => request<PlayerView>(`/games/${id}`, token);
+
+export const submitMove = (id: string, token: string, action: GameAction) =>
+  request<MoveResult>(`/games/${id}/moves`, token, { method: 'POST', body: JSON.stringify({ action }) });
+
+/** Asks the server to play the AI seat currently on turn; `signal` stops waiting for the answer. */
+export const advanceAi = (id: string, token: string, signal?: AbortSignal) =>
+  request<MoveResult>(`/games/${id}/ai`, token, { method: 'POST', signal });
+
+/** The match scores so far, or null when the game is a one-off. */
+export const fetchMatch = (id: string, token: string) => request<MatchState | null>(`/games/${id}/match`, token);
+
+/** Deals the next hand of a match once the current one is over. */
+export const nextHand = (id: string, token: string) =>
+  request<MoveResult>(`/games/${id}/hands`, token, { method: 'POST' });
+
+/** Takes back the last human turn; practice games only. */
+export const undoMove = (id: string, token: string) =>
+  request<MoveResult>(`/games/${id}/undo`, token, { method: 'POST' });
+
+/** The full record of a finished game; the server refuses while it is still being played. */
+export const fetchRecord = (id: string, token: string) => request<GameRecord>(`/games/${id}/record`, token);
+
+/** Opens a room for `table`; the caller takes the first human seat. */
+export const createRoom = (table: TableConfig, rules: RuleSet, name: string) =>
+  request<RoomTicket>('/rooms', null, { method: 'POST', body: JSON.stringify({ table, rules, name }) });
+
+export const joinRoom = (code: string, name: string) =>
+  request<RoomTicket>(`/rooms/${encodeURIComponent(code)}/join`, null, { method: 'POST', body: JSON.stringify({ name }) });
+
+export const fetchRoomRecord = (ticket: RoomTicket) =>
+  request<GameRecord>(`/rooms/${ticket.code}/record`, ticket.token);
+
+export const fetchLeaderboard = () => request<LeaderboardEntry[]>('/leaderboard', null);
+
+export const fetchProfile = (name: string) => request<PlayerProfile>(`/players/${encodeURIComponent(name)}`, null);
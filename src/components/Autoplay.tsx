@@ -0,0 +1,161 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'motion/react';
+import { Bot, Pause, Play, RefreshCw, StepForward, X } from 'lucide-react';
+import { GameAction, GameEvent, GameState, TableConfig, applyAction, createGame, topDiscard } from '../engine';
+import { RuleSet } from '../rules';
+import { DEFAULT_AI_LEVEL } from '../ai';
+import { TurnPlanner, createTurnPlanner } from '../ai/planner';
+import { describeEvent } from '../describe';
+import { useCatalog } from '../i18n';
+import { ReplayFrame } from '../replay';
+import { CARD_COLORS, CardFace, SUIT_ICONS } from './CardFace';
+import SpeedSlider from './SpeedSlider';
+
+interface AutoplayProps {
+  /** The table to watch; human seats are handed to the AI. */
+  table: TableConfig;
+  rules: RuleSet;
+  delay: number;
+  onDelayChange: (delay: number) => void;
+  onClose: () => void;
+}
+
+const deal = (table: TableConfig, rules: RuleSet): ReplayFrame => ({
+  state: createGame({ ...table, seats: table.seats.map(seat => ({ ...seat, kind: 'ai', level: seat.level ?? DEFAULT_AI_LEVEL })) }, rules),
+  events: [],
+});
+
+// The whole turn of the seat on turn, as planned in the browser, where an LLM seat plays as Normal.
+const applyTurn = (state: GameState, actions: GameAction[]): ReplayFrame => {
+  const events: GameEvent[] = [];
+  let next = state;
+  for (const action of actions) {
+    const applied = applyAction(next, action);
+    next = applied.state;
+    events.push(...applied.events);
+  }
+  return { state: next, events };
+};
+
+/** Watches AI seats play each other with every hand face up, one turn at a time or on a timer. */
+export default function Autoplay({ table, rules, delay, onDelayChange, onClose }: AutoplayProps) {
+  const t = useCatalog();
+  const [{ state, events }, setFrame] = useState(() => deal(table, rules));
+  const [playing, setPlaying] = useState(true);
+  const [planner, setPlanner] = useState<TurnPlanner | null>(null);
+  const [thinking, setThinking] = useState(false);
+  const current = useRef(state);
+  current.current = state;
+  const over = state.status === 'over';
+  const top = topDiscard(state);
+
+  useEffect(() => {
+    const next = createTurnPlanner();
+    setPlanner(next);
+    return () => next.dispose();
+  }, []);
+
+  const playTurn = async (from: GameState) => {
+    if (!planner || over) return;
+    setThinking(true);
+    try {
+      const actions = await planner.plan(from);
+      // A new deal while the turn was being planned leaves it with nothing to apply to.
+      if (current.current === from) setFrame(applyTurn(from, actions));
+    } catch {
+      setPlaying(false);
+    } finally {
+      setThinking(false);
+    }
+  };
+
+  // Each scheduled turn belongs to the frame it was planned from; any change clears it before it fires.
+  useEffect(() => {
+    if (!playing || over || thinking || !planner) return;
+    const timer = setTimeout(() => playTurn(state), delay);
+    return () => clearTimeout(timer);
+  }, [playing, over, thinking, planner, state, delay]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[110] flex flex-col bg-[#1a1a1a] p-4 md:p-8 overflow-y-auto"
+    >
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h2 className="text-2xl font-bold">{t.autoplay.title}</h2>
+          <p className="text-xs text-zinc-400 uppercase tracking-widest font-medium">{t.autoplay.seed(state.seed)}</p>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-full transition-colors" title={t.log.close}>
+          <X className="w-6 h-6 text-zinc-400" />
+        </button>
+      </div>
+
+      <div className="flex-1 flex flex-col gap-8 max-w-5xl mx-auto w-full">
+        {state.table.seats.map((seat, index) => (
+          <div key={index} className={`flex flex-col gap-2 ${state.out.includes(index) ? 'opacity-40' : ''}`}>
+            <span className={`flex items-center gap-2 text-sm font-medium ${state.turn === index && !over ? 'text-emerald-400' : 'text-zinc-400'}`}>
+              <Bot className="w-4 h-4" />
+              {seat.name} · {t.aiLevels[seat.level ?? DEFAULT_AI_LEVEL].label} ({state.hands[index].length})
+            </span>
+            <div className="flex flex-wrap gap-2">
+              {state.hands[index].map(card => (
+                <div key={card.id}>
+                  <CardFace card={card} />
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        <div className="flex items-center gap-6">
+          {top && <CardFace card={top} />}
+          {state.currentSuit && (
+            <div className="w-10 h-10 bg-zinc-800 rounded-full border-2 border-white/20 flex items-center justify-center p-2">
+              <div className={CARD_COLORS[state.currentSuit]}>{SUIT_ICONS[state.currentSuit]}</div>
+            </div>
+          )}
+          <span className="text-sm text-zinc-400 font-mono">{t.replay.deck(state.deck.length)}</span>
+        </div>
+
+        <div aria-live="polite" className="min-h-12 text-sm font-medium">
+          {events.length === 0 ? t.replay.initialDeal : events.map(e => describeEvent(e, state.table.seats, t)).join(' · ')}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-3 mt-6">
+        <button
+          onClick={() => setPlaying(on => !on)}
+          disabled={over}
+          className="p-3 bg-white/5 hover:bg-white/10 rounded-xl disabled:opacity-30"
+          title={playing ? t.autoplay.pause : t.autoplay.play}
+        >
+          {playing ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+        </button>
+        <button onClick={() => playTurn(state)} disabled={playing || over || thinking} className="p-3 bg-white/5 hover:bg-white/10 rounded-xl disabled:opacity-30" title={t.autoplay.step}>
+          <StepForward className="w-5 h-5" />
+        </button>
+        <button onClick={() => setFrame(deal(table, rules))} className="p-3 bg-white/5 hover:bg-white/10 rounded-xl" title={t.autoplay.newGame}>
+          <RefreshCw className="w-5 h-5" />
+        </button>
+        <span className="font-mono text-sm text-zinc-400 w-16 text-center">{state.moves.length}</span>
+        <SpeedSlider delay={delay} onChange={onDelayChange} />
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Heart, Diamond, Club, Spade, Sparkles } from 'lucide-react';
+import { Card } from '../types';
+
+export const CARD_COLORS = {
+  hearts: 'text-red-500',
+  diamonds: 'text-red-500',
+  clubs: 'text-zinc-800',
+  spades: 'text-zinc-800',
+};
+
+export const SUIT_ICONS = {
+  hearts: <Heart className="w-full h-full" />,
+  diamonds: <Diamond className="w-full h-full" />,
+  clubs: <Club className="w-full h-full" />,
+  spades: <Spade className="w-full h-full" />,
+};
+
+// Jokers have no suit, so they get a colour and symbol of their own.
+const JOKER_COLOR = 'text-violet-600';
+const JOKER_ICON = <Sparkles className="w-full h-full" />;
+
+export const cardColor = (card: Card) => (card.suit ? CARD_COLORS[card.suit] : JOKER_COLOR);
+export const cardIcon = (card: Card) => (card.suit ? SUIT_ICONS[card.suit] : JOKER_ICON);
+/** The corner index: the rank, or "JK" for a Joker. */
+export const cardLabel = (card: Card) => (card.suit ? card.rank : 'JK');
+
+/** Compact, non-interactive face-up card used outside the main hand. */
+export function CardFace({ card, dimmed = false }: { card: Card; dimmed?: boolean }) {
+  return (
+    <div
+      className={`w-12 h-18 md:w-16 md:h-24 bg-white rounded-lg border-2 border-white/20 shadow-lg flex flex-col p-1 text-zinc-900 relative ${dimmed ? 'opacity-40' : ''}`}
+    >
+      <div className={`text-xs md:text-sm font-bold leading-none ${cardColor(card)}`}>
+        {cardLabel(card)}
+      </div>
+      <div className={`w-3 h-3 ${cardColor(card)}`}>
+        {cardIcon(card)}
+      </div>
+      <div className="absolute inset-0 flex items-center justify-center opacity-5 p-3">
+        {cardIcon(card)}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { CalendarDays, Check, Copy, Flame } from 'lucide-react';
+import { DAILY_EMOJI, DailyResult, dailyStreak } from '../daily';
+import { useCatalog } from '../i18n';
+
+interface DailyChallengeProps {
+  today: string;
+  results: Record<string, DailyResult>;
+  onPlay: () => void;
+}
+
+/** Copies a spoiler-free summary of `day`'s result, ready to paste into a team chat. */
+export function CopyDailyResult({ day, results }: { day: string; results: Record<string, DailyResult> }) {
+  const t = useCatalog();
+  const [copied, setCopied] = useState(false);
+  const [manual, setManual] = useState<string | null>(null);
+  const result = results[day];
+
+  // The clipboard is missing on a plain-http origin and may be refused; then the text is shown to copy by hand.
+  const copy = async () => {
+    const line = `${DAILY_EMOJI[result.outcome]} ${t.daily.result(result.outcome, result.turns)}`;
+    const summary = t.daily.summary(day, line, dailyStreak(results, day));
+    try {
+      await navigator.clipboard.writeText(summary);
+      setCopied(true);
+    } catch {
+      setManual(summary);
+    }
+  };
+
+  if (manual !== null) {
+    return (
+      <label className="block text-sm text-zinc-400">
+        {t.daily.copyByHand}
+        <textarea
+          readOnly
+          autoFocus
+          value={manual}
+          rows={3}
+          onFocus={(e) => e.target.select()}
+          className="w-full mt-2 bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-zinc-200 font-mono resize-none focus:outline-none focus:border-emerald-500/50"
+        />
+      </label>
+    );
+  }
+
+  return (
+    <button
+      onClick={copy}
+      className="w-full py-3 bg-white/5 hover:bg-white/10 text-zinc-300 font-medium rounded-xl transition-all flex items-center justify-center gap-2"
+    >
+      {copied ? <Check className="w-4 h-4 text-emerald-400" /> : <Copy className="w-4 h-4" />}
+      {copied ? t.daily.copied : t.daily.copy}
+    </button>
+  );
+}
+
+/** Start-screen card for today's challenge: play it, or see and share how it went. */
+export default function DailyChallenge({ today, results, onPlay }: DailyChallengeProps) {
+  const t = useCatalog();
+  const result = results[today];
+  const streak = dailyStreak(results, today);
+
+  return (
+    <div className="w-full max-w-md mx-auto mb-8 p-4 bg-white/5 border border-white/10 rounded-2xl text-left">
+      <div className="flex items-center justify-between mb-3">
+        <span className="flex items-center gap-2 text-xs text-zinc-400 uppercase tracking-widest font-medium">
+          <CalendarDays className="w-4 h-4" />
+          {t.daily.title} · {today}
+        </span>
+        {streak > 0 && (
+          <span className="flex items-center gap-1 text-sm font-medium text-amber-400">
+            <Flame className="w-4 h-4" />
+            {t.daily.streak(streak)}
+          </span>
+        )}
+      </div>
+      {result ? (
+        <>
+          <p className="mb-1 font-bold">{DAILY_EMOJI[result.outcome]} {t.daily.result(result.outcome, result.turns)}</p>
+          <p className="mb-3 text-sm text-zinc-400">{t.daily.tomorrow}</p>
+          <CopyDailyResult day={today} results={results} />
+        </>
+      ) : (
+        <button
+          onClick={onPlay}
+          className="w-full py-3 bg-emerald-500 hover:bg-emerald-400 text-white font-bold rounded-xl transition-all"
+        >
+          {t.daily.play}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useRef } from 'react';
+import { useModalFocus } from '../focus';
+
+interface DialogProps {
+  /** Id of the element that names the dialog for screen readers. */
+  labelledBy: string;
+  className?: string;
+  children: React.ReactNode;
+}
+
+/** Modal dialog semantics and focus handling for the panel inside a modal backdrop. */
+export default function Dialog({ labelledBy, className, children }: DialogProps) {
+  const ref = useRef<HTMLDivElement>(null);
+  useModalFocus(ref);
+
+  return (
+    <div ref={ref} role="dialog" aria-modal="true" aria-labelledby={labelledBy} tabIndex={-1} className={`outline-none ${className ?? ''}`}>
+      {children}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Lightbulb, TriangleAlert } from 'lucide-react';
+import { Card } from '../types';
+import { CardHint, MoveHint } from '../hints';
+import { useCatalog } from '../i18n';
+
+interface HintBarProps {
+  /** The suggested move, or null while waiting for another player. */
+  hint: MoveHint | null;
+  /** The card being pointed at or focused, with why it can or cannot be played. */
+  card: { card: Card; hint: CardHint } | null;
+}
+
+/** Hint mode's strip above the hand: the card under the pointer, otherwise the suggested move. */
+export default function HintBar({ hint, card }: HintBarProps) {
+  const t = useCatalog();
+  if (!hint && !card) return null;
+
+  return (
+    <div role="note" className="w-full max-w-xl px-4 py-2 bg-amber-500/10 border border-amber-500/20 rounded-2xl text-sm text-left">
+      {card ? (
+        <>
+          <div className="flex items-start gap-2">
+            <Lightbulb className="w-4 h-4 mt-0.5 shrink-0 text-amber-400" />
+            <span>
+              <span className="font-medium text-amber-300">{t.card(card.card)}</span>
+              <span className="text-zinc-400">{` ${t.hints.canPlay(card.hint.playable)} `}</span>
+              <span className="text-zinc-200">{card.hint.reason(t)}</span>
+            </span>
+          </div>
+          {card.hint.warning && (
+            <div className="flex items-start gap-2 mt-1 text-red-300">
+              <TriangleAlert className="w-4 h-4 mt-0.5 shrink-0" />
+              <span>{card.hint.warning(t)}</span>
+            </div>
+          )}
+        </>
+      ) : (
+        <div className="flex items-start gap-2">
+          <Lightbulb className="w-4 h-4 mt-0.5 shrink-0 text-amber-400" />
+          <span>
+            <span className="font-medium text-amber-300">{t.hints.hint} </span>
+            <span className="text-zinc-200">{hint!.reason(t)}</span>
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { CATALOGS, LOCALES, Locale } from '../i18n';
+
+interface LanguagePickerProps {
+  locale: Locale;
+  onChange: (locale: Locale) => void;
+}
+
+/** Switches the table's language on the fly; each option is named in its own language. */
+export default function LanguagePicker({ locale, onChange }: LanguagePickerProps) {
+  return (
+    <label className="flex items-center gap-1.5 text-zinc-400" title={CATALOGS[locale].language}>
+      <Languages className="w-5 h-5" />
+      <select
+        value={locale}
+        onChange={(e) => onChange(e.target.value as Locale)}
+        aria-label={CATALOGS[locale].chooseLanguage}
+        className="bg-transparent text-sm focus:outline-none cursor-pointer"
+      >
+        {LOCALES.map(code => (
+          <option key={code} value={code} lang={code} className="bg-zinc-900">{CATALOGS[code].language}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { JOKER, RANKS, Rank } from '../types';
+import { DEFAULT_MATCH, MAX_CARD_POINTS, MAX_TARGET_SCORE, MIN_TARGET_SCORE, MatchConfig } from '../match';
+import { useCatalog } from '../i18n';
+
+interface MatchSetupProps {
+  /** Null plays a single hand. */
+  match: MatchConfig | null;
+  onChange: (match: MatchConfig | null) => void;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, Math.round(value)));
+
+/** Start-screen toggle for match play, with its target score and penalty points. */
+export default function MatchSetup({ match, onChange }: MatchSetupProps) {
+  const t = useCatalog();
+  const [open, setOpen] = useState(false);
+  const config = match ?? DEFAULT_MATCH;
+
+  const setNumber = (value: number, apply: (value: number) => MatchConfig) => {
+    if (!Number.isNaN(value)) onChange(apply(value));
+  };
+
+  const setPoints = (rank: Rank, value: number) =>
+    setNumber(value, v => ({ ...config, points: { ...config.points, [rank]: clamp(v, 0, MAX_CARD_POINTS) } }));
+
+  return (
+    <div className="w-full max-w-md mx-auto mb-8 p-4 bg-white/5 border border-white/10 rounded-2xl text-left">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center justify-between text-xs text-zinc-400 uppercase tracking-widest font-medium"
+      >
+        {t.matchSetup.title(match ? match.targetScore : null)}
+        {open ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+      </button>
+
+      {open && (
+        <div className="mt-4 flex flex-col gap-4">
+          <label className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={!!match}
+              onChange={(e) => onChange(e.target.checked ? config : null)}
+              className="accent-emerald-500"
+            />
+            {t.matchSetup.enable}
+          </label>
+
+          {match && (
+            <>
+              <label className="flex items-center justify-between gap-2 text-sm text-zinc-300">
+                {t.matchSetup.targetScore}
+                <input
+                  type="number"
+                  min={MIN_TARGET_SCORE}
+                  max={MAX_TARGET_SCORE}
+                  value={match.targetScore}
+                  onChange={(e) => setNumber(e.target.valueAsNumber, v => ({ ...match, targetScore: clamp(v, MIN_TARGET_SCORE, MAX_TARGET_SCORE) }))}
+                  className="w-20 bg-black/20 border border-white/10 rounded-lg px-2 py-1 text-sm focus:outline-none focus:border-emerald-500/50"
+                />
+              </label>
+
+              <label className="flex items-center justify-between gap-2 text-sm text-zinc-300">
+                {t.matchSetup.outPenalty}
+                <input
+                  type="number"
+                  min={0}
+                  max={MAX_TARGET_SCORE}
+                  value={match.outPenalty}
+                  onChange={(e) => setNumber(e.target.valueAsNumber, v => ({ ...match, outPenalty: clamp(v, 0, MAX_TARGET_SCORE) }))}
+                  className="w-20 bg-black/20 border border-white/10 rounded-lg px-2 py-1 text-sm focus:outline-none focus:border-emerald-500/50"
+                />
+              </label>
+
+              <div>
+                <div className="text-xs text-zinc-400 mb-2">{t.matchSetup.points}</div>
+                <div className="grid grid-cols-3 gap-x-4 gap-y-2">
+                  {[...RANKS, JOKER].map(rank => (
+                    <label key={rank} className="flex items-center justify-between gap-2 text-sm">
+                      <span className="font-mono font-bold w-6">{rank === JOKER ? 'JK' : rank}</span>
+                      <input
+                        type="number"
+                        min={0}
+                        max={MAX_CARD_POINTS}
+                        value={match.points[rank]}
+                        onChange={(e) => setPoints(rank, e.target.valueAsNumber)}
+                        className="w-14 bg-black/20 border border-white/10 rounded-lg px-2 py-1 text-sm focus:outline-none focus:border-emerald-500/50"
+                      />
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useRef } from 'react';
+import { motion } from 'motion/react';
+import { Download, X } from 'lucide-react';
+import { SeatConfig } from '../engine';
+import { PlayerEvent } from '../view';
+import { describeEvent, eventSeat } from '../describe';
+import { useCatalog } from '../i18n';
+
+/** A log line kept as the event itself, so it can be shown in any language or exported as data. */
+export interface LogEntry {
+  /** Moves made when this line was logged; undo drops lines past the restored move. */
+  moveCount: number;
+  /** Null marks the point a move was taken back to. */
+  event: PlayerEvent | null;
+}
+
+interface MoveLogProps {
+  entries: LogEntry[];
+  seats: SeatConfig[];
+  viewSeat: number;
+  onClose: () => void;
+}
+
+const download = (entries: LogEntry[]) => {
+  const blob = new Blob([JSON.stringify(entries, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'crazy-ace-log.json';
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/** Side panel listing every play, draw and suit change so far, newest at the bottom. */
+export default function MoveLog({ entries, seats, viewSeat, onClose }: MoveLogProps) {
+  const t = useCatalog();
+  const end = useRef<HTMLLIElement>(null);
+
+  useEffect(() => {
+    end.current?.scrollIntoView({ block: 'end' });
+  }, [entries]);
+
+  return (
+    <motion.aside
+      initial={{ x: '100%' }}
+      animate={{ x: 0 }}
+      exit={{ x: '100%' }}
+      transition={{ type: 'tween', duration: 0.2 }}
+      className="fixed top-0 right-0 bottom-0 z-40 w-72 max-w-full bg-zinc-900/95 border-l border-white/10 backdrop-blur-md flex flex-col"
+    >
+      <div className="p-4 flex justify-between items-center border-b border-white/10">
+        <h2 className="text-sm font-bold uppercase tracking-widest text-zinc-400">{t.log.title}</h2>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => download(entries)}
+            disabled={entries.length === 0}
+            className="p-1 hover:bg-white/5 rounded-full transition-colors disabled:opacity-30"
+            title={t.log.export}
+          >
+            <Download className="w-5 h-5 text-zinc-400" />
+          </button>
+          <button onClick={onClose} className="p-1 hover:bg-white/5 rounded-full transition-colors" title={t.log.close}>
+            <X className="w-5 h-5 text-zinc-400" />
+          </button>
+        </div>
+      </div>
+      <ol className="flex-1 overflow-y-auto p-4 flex flex-col gap-1.5 text-sm">
+        {entries.length === 0 && <li className="text-zinc-500">{t.log.empty}</li>}
+        {entries.map((entry, index) => {
+          const seat = entry.event && eventSeat(entry.event);
+          return (
+            <li
+              key={index}
+              className={seat === null ? 'text-zinc-500 italic' : seat === viewSeat ? 'text-emerald-300' : 'text-zinc-300'}
+            >
+              <span className="mr-2 font-mono text-xs text-zinc-600">{entry.moveCount}</span>
+              {entry.event ? describeEvent(entry.event, seats, t) : t.log.undone}
+            </li>
+          );
+        })}
+        <li ref={end} aria-hidden />
+      </ol>
+    </motion.aside>
+  );
+}
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { Globe, LogIn, Plus, RotateCcw } from 'lucide-react';
+import { MAX_NAME_LENGTH } from '../engine';
+import { useCatalog } from '../i18n';
+
+interface OnlinePlayProps {
+  /** Code of a room this browser still holds a seat in. */
+  savedCode: string | null;
+  onCreate: (name: string) => void;
+  onJoin: (code: string, name: string) => void;
+  onRejoin: () => void;
+}
+
+/** Start-screen panel for hosting a room with the current table, or joining one by code. */
+export default function OnlinePlay({ savedCode, onCreate, onJoin, onRejoin }: OnlinePlayProps) {
+  const t = useCatalog();
+  const [name, setName] = useState('');
+  const [code, setCode] = useState('');
+
+  return (
+    <div className="w-full max-w-md mx-auto mb-8 p-4 bg-white/5 border border-white/10 rounded-2xl text-left">
+      <div className="flex items-center gap-2 mb-3 text-xs text-zinc-400 uppercase tracking-widest font-medium">
+        <Globe className="w-4 h-4" />
+        {t.online.title}
+      </div>
+
+      <input
+        value={name}
+        maxLength={MAX_NAME_LENGTH}
+        placeholder={t.online.name}
+        onChange={(e) => setName(e.target.value)}
+        className="w-full mb-3 bg-black/20 border border-white/10 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:border-emerald-500/50"
+      />
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => onCreate(name)}
+          className="flex items-center gap-1.5 px-3 py-1.5 bg-emerald-500/10 border border-emerald-500/30 text-emerald-400 rounded-lg text-sm hover:bg-emerald-500/20"
+          title={t.online.createTitle}
+        >
+          <Plus className="w-4 h-4" />
+          {t.online.create}
+        </button>
+        <input
+          value={code}
+          maxLength={5}
+          placeholder={t.online.code}
+          onChange={(e) => setCode(e.target.value.toUpperCase())}
+          className="flex-1 min-w-0 bg-black/20 border border-white/10 rounded-lg px-3 py-1.5 text-sm font-mono tracking-widest uppercase focus:outline-none focus:border-emerald-500/50"
+        />
+        <button
+          onClick={() => onJoin(code, name)}
+          disabled={code.trim().length === 0}
+          className="flex items-center gap-1.5 px-3 py-1.5 bg-white/5 border border-white/10 rounded-lg text-sm hover:bg-white/10 disabled:opacity-30"
+        >
+          <LogIn className="w-4 h-4" />
+          {t.online.join}
+        </button>
+      </div>
+
+      {savedCode && (
+        <button
+          onClick={onRejoin}
+          className="flex items-center gap-1.5 mt-3 text-sm text-zinc-400 hover:text-emerald-400 transition-colors"
+        >
+          <RotateCcw className="w-4 h-4" />
+          {t.online.rejoin(savedCode)}
+        </button>
+      )}
+    </div>
+  );
+}
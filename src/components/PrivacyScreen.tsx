@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { motion } from 'motion/react';
+import { EyeOff } from 'lucide-react';
+import { useCatalog } from '../i18n';
+import Dialog from './Dialog';
+
+interface PrivacyScreenProps {
+  /** The seat on turn. */
+  name: string;
+  /** An AI seat is on turn: nobody's hand is shown until a human is up again. */
+  ai: boolean;
+  onReveal: () => void;
+}
+
+/** Covers the table between hot-seat turns so nobody sees the hand of the player before them. */
+export default function PrivacyScreen({ name, ai, onReveal }: PrivacyScreenProps) {
+  const t = useCatalog();
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={ai ? undefined : onReveal}
+      className={`fixed inset-0 z-[60] flex items-center justify-center bg-[#1a1a1a] p-4 ${ai ? '' : 'cursor-pointer'}`}
+    >
+      {/* A fresh dialog for each seat on turn, so the reveal button takes focus once a human is up. */}
+      <div key={`${ai}-${name}`}>
+        <Dialog labelledBy="privacy-title" className="text-center">
+          <EyeOff className="w-16 h-16 mx-auto mb-6 text-emerald-400" />
+          <h2 id="privacy-title" className="text-3xl md:text-4xl font-bold mb-6">{ai ? t.hotSeat.aiTurn(name) : t.hotSeat.passTo(name)}</h2>
+          {!ai && (
+            <button
+              onClick={onReveal}
+              data-autofocus
+              className="px-8 py-4 bg-white text-zinc-900 font-bold rounded-2xl transition-all hover:scale-105 active:scale-95"
+            >
+              {t.hotSeat.reveal}
+            </button>
+          )}
+        </Dialog>
+      </div>
+    </motion.div>
+  );
+}
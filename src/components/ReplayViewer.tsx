@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { ChevronLeft, ChevronRight, SkipBack, SkipForward, X } from 'lucide-react';
+import { topDiscard } from '../engine';
+import { describeEvent } from '../describe';
+import { useCatalog } from '../i18n';
+import { ReplayFrame } from '../replay';
+import { CARD_COLORS, CardFace, SUIT_ICONS } from './CardFace';
+
+interface ReplayViewerProps {
+  frames: ReplayFrame[];
+  seed: number;
+  onClose: () => void;
+}
+
+/** Steps forward and back through a recorded game with every hand face up. */
+export default function ReplayViewer({ frames, seed, onClose }: ReplayViewerProps) {
+  const t = useCatalog();
+  const [index, setIndex] = useState(0);
+  const last = frames.length - 1;
+  const { state, events } = frames[index];
+  const top = topDiscard(state);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowLeft') setIndex(i => Math.max(0, i - 1));
+      if (e.key === 'ArrowRight') setIndex(i => Math.min(last, i + 1));
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [last, onClose]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[110] flex flex-col bg-[#1a1a1a] p-4 md:p-8 overflow-y-auto"
+    >
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h2 className="text-2xl font-bold">{t.replay.title}</h2>
+          <p className="text-xs text-zinc-400 uppercase tracking-widest font-medium">{t.replay.seed(seed)}</p>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-full transition-colors" title={t.replay.close}>
+          <X className="w-6 h-6 text-zinc-400" />
+        </button>
+      </div>
+
+      <div className="flex-1 flex flex-col gap-8 max-w-5xl mx-auto w-full">
+        {state.table.seats.map((seat, index) => (
+          <div key={index} className="flex flex-col gap-2">
+            <span className={`text-sm font-medium ${state.turn === index && state.status === 'playing' ? 'text-emerald-400' : 'text-zinc-400'}`}>
+              {seat.name} ({state.hands[index].length})
+            </span>
+            <div className="flex flex-wrap gap-2">
+              {state.hands[index].map(card => (
+                <div key={card.id}>
+                  <CardFace card={card} />
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        <div className="flex items-center gap-6">
+          {top && <CardFace card={top} />}
+          {state.currentSuit && (
+            <div className="w-10 h-10 bg-zinc-800 rounded-full border-2 border-white/20 flex items-center justify-center p-2">
+              <div className={CARD_COLORS[state.currentSuit]}>{SUIT_ICONS[state.currentSuit]}</div>
+            </div>
+          )}
+          <span className="text-sm text-zinc-400 font-mono">{t.replay.deck(state.deck.length)}</span>
+        </div>
+
+        <div className="min-h-12 text-sm font-medium">
+          {events.length === 0 ? t.replay.initialDeal : events.map(e => describeEvent(e, state.table.seats, t)).join(' · ')}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-center gap-3 mt-6">
+        <button onClick={() => setIndex(0)} disabled={index === 0} className="p-3 bg-white/5 hover:bg-white/10 rounded-xl disabled:opacity-30" title={t.replay.first}>
+          <SkipBack className="w-5 h-5" />
+        </button>
+        <button onClick={() => setIndex(i => Math.max(0, i - 1))} disabled={index === 0} className="p-3 bg-white/5 hover:bg-white/10 rounded-xl disabled:opacity-30" title={t.replay.back}>
+          <ChevronLeft className="w-5 h-5" />
+        </button>
+        <span className="font-mono text-sm text-zinc-400 w-24 text-center">{index} / {last}</span>
+        <button onClick={() => setIndex(i => Math.min(last, i + 1))} disabled={index === last} className="p-3 bg-white/5 hover:bg-white/10 rounded-xl disabled:opacity-30" title={t.replay.forward}>
+          <ChevronRight className="w-5 h-5" />
+        </button>
+        <button onClick={() => setIndex(last)} disabled={index === last} className="p-3 bg-white/5 hover:bg-white/10 rounded-xl disabled:opacity-30" title={t.replay.last}>
+          <SkipForward className="w-5 h-5" />
+        </button>
+      </div>
+    </motion.div>
+  );
+}
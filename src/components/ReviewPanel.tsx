@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect } from 'react';
+import { motion } from 'motion/react';
+import { AlertTriangle, X } from 'lucide-react';
+import { SeatConfig } from '../engine';
+import { GameReview } from '../review';
+import { describeEvent } from '../describe';
+import { useCatalog } from '../i18n';
+
+interface ReviewPanelProps {
+  review: GameReview;
+  seats: SeatConfig[];
+  onClose: () => void;
+}
+
+/** Every move of a finished game, with the reviewed seat's hasty plays highlighted. */
+export default function ReviewPanel({ review, seats, onClose }: ReviewPanelProps) {
+  const t = useCatalog();
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const name = seats[review.seat].name;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[110] flex items-center justify-center bg-black/80 backdrop-blur-md p-4"
+    >
+      <div className="bg-zinc-900 border border-white/10 p-6 md:p-8 rounded-3xl shadow-2xl max-w-lg w-full max-h-full flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold">{t.review.title}</h2>
+          <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-full transition-colors" title={t.log.close}>
+            <X className="w-6 h-6 text-zinc-400" />
+          </button>
+        </div>
+
+        <p className="mb-4 text-sm text-zinc-400">
+          {!review.applies
+            ? t.review.notApplicable
+            : review.flagged === 0
+              ? t.review.clean(name)
+              : t.review.flagged(review.flagged, name)}
+        </p>
+
+        <ol className="flex-1 overflow-y-auto flex flex-col gap-1 text-sm">
+          {review.moves.map(move => (
+            <li
+              key={move.index}
+              className={`px-3 py-1.5 rounded-lg ${
+                move.instead
+                  ? move.handAfter === 0 ? 'bg-red-500/15 text-red-300' : 'bg-amber-500/10 text-amber-200'
+                  : move.seat === review.seat ? 'text-emerald-300' : 'text-zinc-400'
+              }`}
+            >
+              <div className="flex items-start gap-2">
+                <span className="font-mono text-xs text-zinc-600 pt-0.5">{move.index + 1}</span>
+                <span className="flex-1">{move.events.map(event => describeEvent(event, seats, t)).join('. ')}</span>
+                {move.instead && <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />}
+              </div>
+              {move.instead && (
+                <div className="ml-6 text-xs opacity-80">
+                  {t.review.couldHave(move.handAfter, move.instead)}
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Bot, Crown, LogOut, Play, User, WifiOff } from 'lucide-react';
+import { RoomInfo } from '../api';
+import { useCatalog } from '../i18n';
+
+interface RoomLobbyProps {
+  room: RoomInfo | null;
+  seat: number;
+  connected: boolean;
+  onStart: () => void;
+  onLeave: () => void;
+}
+
+/** Waiting room: the join code, who has taken which seat, and the host's start button. */
+export default function RoomLobby({ room, seat, connected, onStart, onLeave }: RoomLobbyProps) {
+  const t = useCatalog();
+  const isHost = room?.hostSeat === seat;
+  const openSeats = room?.seats.filter(s => s.open).length ?? 0;
+
+  return (
+    <div className="w-full max-w-md mx-auto mb-8 p-4 bg-white/5 border border-white/10 rounded-2xl text-left">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <span className="text-xs text-zinc-400 uppercase tracking-widest font-medium">{t.lobby.roomCode}</span>
+          <div className="text-3xl font-black font-mono tracking-[0.3em] text-emerald-400">{room?.code ?? '·····'}</div>
+        </div>
+        {!connected && (
+          <span className="flex items-center gap-1.5 text-sm text-amber-400">
+            <WifiOff className="w-4 h-4" />
+            {t.lobby.reconnecting}
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-2 mb-4">
+        {room?.seats.map((s, index) => (
+          <div key={index} className="flex items-center gap-2 text-sm">
+            <span className="w-5 text-xs font-mono text-zinc-500">{index + 1}</span>
+            {s.kind === 'human' ? <User className="w-4 h-4 text-emerald-400" /> : <Bot className="w-4 h-4 text-zinc-400" />}
+            <span className={s.open ? 'text-zinc-500 italic' : ''}>
+              {s.open ? t.lobby.waitingForPlayer : s.name}
+              {index === seat && ` ${t.lobby.you}`}
+            </span>
+            {index === room.hostSeat && <Crown className="w-4 h-4 text-amber-400" />}
+            {s.kind === 'human' && !s.open && !s.connected && <WifiOff className="w-4 h-4 text-zinc-500" />}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        {isHost ? (
+          <button
+            onClick={onStart}
+            className="flex-1 flex items-center justify-center gap-2 py-2 bg-emerald-500 hover:bg-emerald-400 text-white font-bold rounded-xl"
+          >
+            <Play className="w-4 h-4" />
+            {t.lobby.start(openSeats)}
+          </button>
+        ) : (
+          <span className="flex-1 text-sm text-zinc-400">{t.lobby.waitingForHost}</span>
+        )}
+        <button
+          onClick={onLeave}
+          className="flex items-center gap-1.5 px-3 py-2 bg-white/5 hover:bg-white/10 rounded-xl text-sm"
+        >
+          <LogOut className="w-4 h-4" />
+          {t.lobby.leave}
+        </button>
+      </div>
+    </div>
+  );
+}
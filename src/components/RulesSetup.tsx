@@ -0,0 +1,189 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { RANKS, Rank } from '../types';
+import {
+  DEFAULT_RULES,
+  DRAW_POLICIES,
+  DrawPolicy,
+  HOUSE_RULES,
+  MAX_DECKS,
+  MAX_DRAW_LIMIT,
+  MAX_HAND_SIZE,
+  MIN_DECKS,
+  MIN_DRAW_LIMIT,
+  MIN_HAND_SIZE,
+  RANK_EFFECTS,
+  RankEffect,
+  RuleSet,
+} from '../rules';
+import { useCatalog } from '../i18n';
+
+interface RulesSetupProps {
+  rules: RuleSet;
+  onChange: (rules: RuleSet) => void;
+}
+
+/** Start-screen editor for rank effects, the deck, hand size, drawing and the misère toggle. */
+export default function RulesSetup({ rules, onChange }: RulesSetupProps) {
+  const t = useCatalog();
+  const [open, setOpen] = useState(false);
+
+  const setEffect = (rank: Rank, effect: RankEffect | '') => {
+    const effects = { ...rules.effects };
+    if (effect) effects[rank] = effect;
+    else delete effects[rank];
+    onChange({ ...rules, effects });
+  };
+
+  const setHandSize = (value: number) => {
+    if (Number.isNaN(value)) return;
+    onChange({ ...rules, handSize: Math.min(MAX_HAND_SIZE, Math.max(MIN_HAND_SIZE, Math.round(value))) });
+  };
+
+  const setDecks = (value: number) => {
+    if (Number.isNaN(value)) return;
+    onChange({ ...rules, decks: Math.min(MAX_DECKS, Math.max(MIN_DECKS, Math.round(value))) });
+  };
+
+  const setDrawLimit = (value: number) => {
+    if (Number.isNaN(value)) return;
+    onChange({ ...rules, drawLimit: Math.min(MAX_DRAW_LIMIT, Math.max(MIN_DRAW_LIMIT, Math.round(value))) });
+  };
+
+  return (
+    <div className="w-full max-w-md mx-auto mb-8 p-4 bg-white/5 border border-white/10 rounded-2xl text-left">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center justify-between text-xs text-zinc-400 uppercase tracking-widest font-medium"
+      >
+        {t.rulesSetup.title}
+        {open ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+      </button>
+
+      {open && (
+        <div className="mt-4 flex flex-col gap-4">
+          <div className="flex gap-2">
+            <button
+              onClick={() => onChange(DEFAULT_RULES)}
+              className="flex-1 py-1.5 text-sm bg-white/5 hover:bg-white/10 border border-white/10 rounded-lg"
+            >
+              {t.rulesSetup.classic}
+            </button>
+            <button
+              onClick={() => onChange(HOUSE_RULES)}
+              className="flex-1 py-1.5 text-sm bg-white/5 hover:bg-white/10 border border-white/10 rounded-lg"
+            >
+              {t.rulesSetup.actionCards}
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+            {RANKS.map(rank => (
+              <label key={rank} className="flex items-center justify-between gap-2 text-sm">
+                <span className="font-mono font-bold w-6">{rank}</span>
+                <select
+                  value={rules.effects[rank] ?? ''}
+                  onChange={(e) => setEffect(rank, e.target.value as RankEffect | '')}
+                  className="flex-1 bg-black/20 border border-white/10 rounded-lg px-2 py-1 text-sm focus:outline-none focus:border-emerald-500/50"
+                >
+                  <option value="">{t.rulesSetup.plain}</option>
+                  {RANK_EFFECTS.map(effect => (
+                    <option key={effect} value={effect}>{t.rulesSetup.effects[effect]}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={rules.stackDrawTwo}
+              onChange={(e) => onChange({ ...rules, stackDrawTwo: e.target.checked })}
+              className="accent-emerald-500"
+            />
+            {t.rulesSetup.stackDrawTwo}
+          </label>
+
+          <label className="flex items-center justify-between gap-2 text-sm text-zinc-300">
+            {t.rulesSetup.decks}
+            <input
+              type="number"
+              min={MIN_DECKS}
+              max={MAX_DECKS}
+              value={rules.decks}
+              onChange={(e) => setDecks(e.target.valueAsNumber)}
+              className="w-20 bg-black/20 border border-white/10 rounded-lg px-2 py-1 text-sm focus:outline-none focus:border-emerald-500/50"
+            />
+          </label>
+
+          <label className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={rules.jokers}
+              onChange={(e) => onChange({ ...rules, jokers: e.target.checked })}
+              className="accent-emerald-500"
+            />
+            {t.rulesSetup.jokers}
+          </label>
+
+          <label className="flex items-center justify-between gap-2 text-sm text-zinc-300">
+            {t.rulesSetup.handSize}
+            <input
+              type="number"
+              min={MIN_HAND_SIZE}
+              max={MAX_HAND_SIZE}
+              value={rules.handSize}
+              onChange={(e) => setHandSize(e.target.valueAsNumber)}
+              className="w-20 bg-black/20 border border-white/10 rounded-lg px-2 py-1 text-sm focus:outline-none focus:border-emerald-500/50"
+            />
+          </label>
+
+          <label className="flex items-center justify-between gap-2 text-sm text-zinc-300">
+            {t.rulesSetup.drawPolicy}
+            <select
+              value={rules.drawPolicy}
+              onChange={(e) => onChange({ ...rules, drawPolicy: e.target.value as DrawPolicy })}
+              className="w-36 bg-black/20 border border-white/10 rounded-lg px-2 py-1 text-sm focus:outline-none focus:border-emerald-500/50"
+            >
+              {DRAW_POLICIES.map(policy => (
+                <option key={policy} value={policy}>{t.rulesSetup.drawPolicies[policy]}</option>
+              ))}
+            </select>
+          </label>
+
+          {rules.drawPolicy === 'upTo' && (
+            <label className="flex items-center justify-between gap-2 text-sm text-zinc-300">
+              {t.rulesSetup.drawLimit}
+              <input
+                type="number"
+                min={MIN_DRAW_LIMIT}
+                max={MAX_DRAW_LIMIT}
+                value={rules.drawLimit}
+                onChange={(e) => setDrawLimit(e.target.valueAsNumber)}
+                className="w-20 bg-black/20 border border-white/10 rounded-lg px-2 py-1 text-sm focus:outline-none focus:border-emerald-500/50"
+              />
+            </label>
+          )}
+
+          <label className="flex items-center justify-between gap-2 text-sm text-zinc-300">
+            {t.rulesSetup.emptyHand}
+            <select
+              value={rules.emptyHandLoses ? 'loses' : 'wins'}
+              onChange={(e) => onChange({ ...rules, emptyHandLoses: e.target.value === 'loses' })}
+              className="w-28 bg-black/20 border border-white/10 rounded-lg px-2 py-1 text-sm focus:outline-none focus:border-emerald-500/50"
+            >
+              <option value="loses">{t.rulesSetup.loses}</option>
+              <option value="wins">{t.rulesSetup.wins}</option>
+            </select>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { SeatConfig } from '../engine';
+import { MatchState } from '../match';
+import { useCatalog } from '../i18n';
+
+interface ScoreboardProps {
+  match: MatchState;
+  seats: SeatConfig[];
+  viewSeat: number;
+}
+
+/** Penalty points per hand and running totals; lowest total leads. */
+export default function Scoreboard({ match, seats, viewSeat }: ScoreboardProps) {
+  const t = useCatalog();
+  const best = Math.min(...match.totals);
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-zinc-400 uppercase tracking-widest">
+            <th className="text-left font-medium pb-2">{t.scoreboard.player}</th>
+            {match.hands.map((_, hand) => (
+              <th key={hand} className="text-right font-medium pb-2 px-1">{t.scoreboard.hand(hand + 1)}</th>
+            ))}
+            <th className="text-right font-medium pb-2 pl-2">{t.scoreboard.total}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {seats.map((seat, index) => (
+            <tr key={index} className={`border-t border-white/5 ${index === viewSeat ? 'text-emerald-300' : ''}`}>
+              <td className="py-1.5 text-left">{seat.name}</td>
+              {match.hands.map((hand, handIndex) => (
+                <td
+                  key={handIndex}
+                  className={`py-1.5 px-1 text-right font-mono ${hand.out === index ? 'text-red-400' : 'text-zinc-400'}`}
+                  title={hand.out === index ? t.scoreboard.includesPenalty(match.config.outPenalty) : undefined}
+                >
+                  {hand.scores[index]}
+                </td>
+              ))}
+              <td className={`py-1.5 pl-2 text-right font-mono font-bold ${match.totals[index] === best ? 'text-emerald-400' : ''}`}>
+                {match.totals[index]}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="mt-2 text-xs text-zinc-500 text-left">
+        {t.scoreboard.footnote(match.config.targetScore, match.config.outPenalty)}
+      </p>
+    </div>
+  );
+}
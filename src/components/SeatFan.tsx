@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { motion } from 'motion/react';
+import { useCatalog } from '../i18n';
+
+interface SeatFanProps {
+  name: string;
+  count: number;
+  active: boolean;
+  out?: boolean;
+  /** Stack the card backs top-to-bottom for seats on the sides of the board. */
+  vertical?: boolean;
+  /** Smaller cards for crowded tables. */
+  compact?: boolean;
+}
+
+/** Face-down hand of an opponent, with their name and card count. */
+export default function SeatFan({ name, count, active, out = false, vertical = false, compact = false }: SeatFanProps) {
+  const t = useCatalog();
+  const cardSize = compact ? 'w-10 h-14 md:w-12 md:h-18' : 'w-16 h-24 md:w-24 md:h-36';
+  const overlap = vertical
+    ? (compact ? '-space-y-10 md:-space-y-14' : '-space-y-16 md:-space-y-28')
+    : (compact ? '-space-x-6 md:-space-x-8' : '-space-x-8 md:-space-x-12');
+
+  return (
+    <div
+      role="group"
+      aria-label={t.table.seatLabel(name, count, out, active)}
+      className={`flex flex-col items-center gap-2 ${out ? 'opacity-40' : ''}`}
+    >
+      <div className="flex items-center gap-2 px-4 py-1.5 bg-white/5 rounded-full border border-white/10">
+        <div className={`w-2 h-2 rounded-full ${active ? 'bg-emerald-500 animate-pulse' : 'bg-zinc-600'}`} />
+        <span className="text-sm font-medium text-zinc-400">{name} ({count}){out ? ' · out' : ''}</span>
+      </div>
+      <div aria-hidden className={`flex ${vertical ? 'flex-col' : ''} ${overlap} overflow-visible py-2`}>
+        {Array.from({ length: count }, (_, idx) => (
+          <motion.div
+            key={`${name}-card-${idx}`}
+            initial={{ y: -50, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            className={`${cardSize} bg-gradient-to-br from-zinc-700 to-zinc-900 rounded-lg border-2 border-white/10 shadow-xl flex items-center justify-center`}
+          >
+            <div className={`${compact ? 'w-5 h-5' : 'w-8 h-8 md:w-12 md:h-12'} border-2 border-white/5 rounded-full flex items-center justify-center`}>
+              <div className={`${compact ? 'w-2 h-2' : 'w-4 h-4 md:w-6 md:h-6'} bg-emerald-500/20 rounded-full`} />
+            </div>
+          </motion.div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Gauge } from 'lucide-react';
+import { AI_DELAY_STEP, MAX_AI_DELAY, MIN_AI_DELAY } from '../speed';
+import { useCatalog } from '../i18n';
+
+interface SpeedSliderProps {
+  /** Pause before each AI turn, in milliseconds. */
+  delay: number;
+  onChange: (delay: number) => void;
+}
+
+/** How fast AI seats move; further right is faster, so the slider runs against the delay. */
+export default function SpeedSlider({ delay, onChange }: SpeedSliderProps) {
+  const t = useCatalog();
+
+  return (
+    <label className="flex items-center gap-2 text-zinc-400" title={t.speed.delay(delay)}>
+      <Gauge className="w-5 h-5" />
+      <input
+        type="range"
+        min={MIN_AI_DELAY}
+        max={MAX_AI_DELAY}
+        step={AI_DELAY_STEP}
+        value={MAX_AI_DELAY - delay}
+        onChange={(e) => onChange(MAX_AI_DELAY - Number(e.target.value))}
+        aria-label={t.speed.label}
+        aria-valuetext={t.speed.delay(delay)}
+        className="w-20 accent-emerald-500 cursor-pointer"
+      />
+    </label>
+  );
+}
@@ -0,0 +1,154 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { ChevronLeft, X } from 'lucide-react';
+import { AI_LEVELS } from '../engine';
+import { LeaderboardEntry, PlayerProfile, SeatOutcome, WinLoss, fetchLeaderboard, fetchProfile } from '../api';
+import { useCatalog } from '../i18n';
+
+const OUTCOME_COLORS: Record<SeatOutcome, string> = {
+  won: 'text-emerald-400',
+  lost: 'text-red-400',
+  tied: 'text-zinc-400',
+  survived: 'text-zinc-300',
+};
+
+const winRate = ({ games, wins }: WinLoss) => (games > 0 ? `${Math.round((wins / games) * 100)}%` : '–');
+
+interface StatsPanelProps {
+  onClose: () => void;
+}
+
+/** Leaderboard of every recorded player, and each player's record against the AI levels. */
+export default function StatsPanel({ onClose }: StatsPanelProps) {
+  const t = useCatalog();
+  const [leaders, setLeaders] = useState<LeaderboardEntry[] | null>(null);
+  const [profile, setProfile] = useState<PlayerProfile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchLeaderboard()
+      .then(setLeaders)
+      .catch(err => setError(err.message));
+  }, []);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const openProfile = (name: string) => {
+    fetchProfile(name)
+      .then(setProfile)
+      .catch(err => setError(err.message));
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[110] flex items-center justify-center bg-black/80 backdrop-blur-md p-4"
+    >
+      <div className="bg-zinc-900 border border-white/10 p-6 md:p-8 rounded-3xl shadow-2xl max-w-lg w-full max-h-full overflow-y-auto">
+        <div className="flex justify-between items-center mb-6">
+          <div className="flex items-center gap-2">
+            {profile && (
+              <button onClick={() => setProfile(null)} className="p-1 hover:bg-white/5 rounded-full" title={t.stats.back}>
+                <ChevronLeft className="w-5 h-5 text-zinc-400" />
+              </button>
+            )}
+            <h2 className="text-2xl font-bold">{profile ? profile.name : t.table.leaderboard}</h2>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-full transition-colors" title={t.log.close}>
+            <X className="w-6 h-6 text-zinc-400" />
+          </button>
+        </div>
+
+        {error && <p className="mb-4 text-sm text-red-400">{error}</p>}
+
+        {!profile && leaders && (leaders.length === 0 ? (
+          <p className="text-zinc-400">{t.stats.empty}</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-zinc-400 uppercase tracking-widest">
+                <th className="text-left font-medium pb-2">{t.stats.rank}</th>
+                <th className="text-left font-medium pb-2">{t.stats.player}</th>
+                <th className="text-right font-medium pb-2">{t.stats.wins}</th>
+                <th className="text-right font-medium pb-2">{t.stats.losses}</th>
+                <th className="text-right font-medium pb-2">{t.stats.games}</th>
+                <th className="text-right font-medium pb-2">{t.stats.winRate}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {leaders.map((entry, index) => (
+                <tr key={entry.name} className="border-t border-white/5">
+                  <td className="py-2 font-mono text-zinc-500">{index + 1}</td>
+                  <td className="py-2">
+                    <button onClick={() => openProfile(entry.name)} className="hover:text-emerald-400 transition-colors">{entry.name}</button>
+                  </td>
+                  <td className="py-2 text-right font-mono">{entry.wins}</td>
+                  <td className="py-2 text-right font-mono">{entry.losses}</td>
+                  <td className="py-2 text-right font-mono">{entry.games}</td>
+                  <td className="py-2 text-right font-mono">{winRate(entry)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ))}
+
+        {profile && (
+          <div className="flex flex-col gap-6">
+            <p className="text-zinc-300">
+              {t.stats.record(profile.wins, profile.losses, profile.games, winRate(profile))}
+            </p>
+
+            <div>
+              <h3 className="text-xs text-zinc-400 uppercase tracking-widest font-medium mb-2">{t.stats.vsAi}</h3>
+              <div className="grid grid-cols-2 gap-2">
+                {AI_LEVELS.filter(level => profile.vsAi[level]).map(level => (
+                  <div key={level} className="p-3 bg-white/5 border border-white/10 rounded-xl">
+                    <div className="text-sm font-medium">{t.aiLevels[level].label}</div>
+                    <div className="text-xs text-zinc-400 font-mono">
+                      {t.stats.vsAiRecord(profile.vsAi[level]!.wins, profile.vsAi[level]!.losses, profile.vsAi[level]!.games, winRate(profile.vsAi[level]!))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              {AI_LEVELS.every(level => !profile.vsAi[level]) && <p className="text-sm text-zinc-500">{t.stats.noAiGames}</p>}
+            </div>
+
+            <div>
+              <h3 className="text-xs text-zinc-400 uppercase tracking-widest font-medium mb-2">{t.stats.recent}</h3>
+              <ul className="flex flex-col gap-2">
+                {profile.recent.map(game => (
+                  <li key={game.id} className="p-3 bg-white/5 border border-white/10 rounded-xl text-xs">
+                    <div className="flex justify-between text-zinc-400 mb-1">
+                      <span>{new Date(`${game.finishedAt}Z`).toLocaleString()}{game.online ? ` · ${t.stats.online}` : ''}</span>
+                      <span className="font-mono">{t.stats.moves(game.moveCount, game.endReason === 'deadlock')}</span>
+                    </div>
+                    <div className="flex flex-wrap gap-x-3">
+                      {game.seats.map((seat, index) => (
+                        <span key={index} className={OUTCOME_COLORS[seat.outcome]}>
+                          {seat.name} ({seat.finalHand})
+                        </span>
+                      ))}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
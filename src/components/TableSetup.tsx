@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Bot, Minus, Plus, User } from 'lucide-react';
+import { AI_LEVELS, AiLevel, MAX_SEATS, MIN_SEATS, SeatConfig, TableConfig } from '../engine';
+import { DEFAULT_AI_LEVEL } from '../ai';
+import { Catalog, useCatalog } from '../i18n';
+
+interface TableSetupProps {
+  table: TableConfig;
+  onChange: (table: TableConfig) => void;
+}
+
+const nextSeatName = (seats: SeatConfig[], kind: SeatConfig['kind'], t: Catalog): string => {
+  let n = seats.filter(s => s.kind === kind).length + 1;
+  while (seats.some(s => s.name === t.tableSetup.seatName(kind, n))) n++;
+  return t.tableSetup.seatName(kind, n);
+};
+
+export const hasHumanSeat = (table: TableConfig): boolean => table.seats.some(s => s.kind === 'human');
+
+/** Start-screen editor for the number of seats, who sits in them and the end rule. */
+export default function TableSetup({ table, onChange }: TableSetupProps) {
+  const t = useCatalog();
+  const updateSeat = (index: number, seat: SeatConfig) => {
+    onChange({ ...table, seats: table.seats.map((s, i) => (i === index ? seat : s)) });
+  };
+
+  const toggleKind = (index: number) => {
+    const seat = table.seats[index];
+    const kind = seat.kind === 'ai' ? 'human' : 'ai';
+    updateSeat(index, { kind, name: nextSeatName(table.seats, kind, t), level: kind === 'ai' ? DEFAULT_AI_LEVEL : undefined });
+  };
+
+  const addSeat = () => {
+    onChange({ ...table, seats: [...table.seats, { kind: 'ai', name: nextSeatName(table.seats, 'ai', t) }] });
+  };
+
+  const removeSeat = () => {
+    onChange({ ...table, seats: table.seats.slice(0, -1) });
+  };
+
+  return (
+    <div className="w-full max-w-md mx-auto mb-8 p-4 bg-white/5 border border-white/10 rounded-2xl text-left">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-xs text-zinc-400 uppercase tracking-widest font-medium">{t.tableSetup.title(table.seats.length)}</span>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={removeSeat}
+            disabled={table.seats.length <= MIN_SEATS}
+            className="p-1.5 hover:bg-white/10 rounded-lg disabled:opacity-30"
+            title={t.tableSetup.removeSeat}
+          >
+            <Minus className="w-4 h-4" />
+          </button>
+          <button
+            onClick={addSeat}
+            disabled={table.seats.length >= MAX_SEATS}
+            className="p-1.5 hover:bg-white/10 rounded-lg disabled:opacity-30"
+            title={t.tableSetup.addSeat}
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        {table.seats.map((seat, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <span className="w-5 text-xs font-mono text-zinc-500">{index + 1}</span>
+            <button
+              onClick={() => toggleKind(index)}
+              className={`p-2 rounded-lg border ${seat.kind === 'human' ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-400' : 'bg-white/5 border-white/10 text-zinc-400'}`}
+              title={t.tableSetup.seatKind(seat.kind)}
+            >
+              {seat.kind === 'human' ? <User className="w-4 h-4" /> : <Bot className="w-4 h-4" />}
+            </button>
+            <input
+              value={seat.name}
+              maxLength={16}
+              onChange={(e) => updateSeat(index, { ...seat, name: e.target.value })}
+              className="flex-1 min-w-0 bg-black/20 border border-white/10 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:border-emerald-500/50"
+            />
+            {seat.kind === 'ai' && (
+              <select
+                value={seat.level ?? DEFAULT_AI_LEVEL}
+                onChange={(e) => updateSeat(index, { ...seat, level: e.target.value as AiLevel })}
+                title={t.aiLevels[seat.level ?? DEFAULT_AI_LEVEL].description}
+                className="w-24 bg-black/20 border border-white/10 rounded-lg px-2 py-1.5 text-sm focus:outline-none focus:border-emerald-500/50"
+              >
+                {AI_LEVELS.map(level => (
+                  <option key={level} value={level}>{t.aiLevels[level].label}</option>
+                ))}
+              </select>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <label className="flex items-center gap-2 mt-4 text-sm text-zinc-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={table.playToLast}
+          onChange={(e) => onChange({ ...table, playToLast: e.target.checked })}
+          className="accent-emerald-500"
+        />
+        {t.tableSetup.playToLast}
+      </label>
+
+      {!hasHumanSeat(table) && (
+        <p className="mt-2 text-sm text-red-400">{t.tableSetup.needHuman}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { GraduationCap, X } from 'lucide-react';
+import { SUITS } from '../types';
+import { GameAction, GameEvent, topDiscard } from '../engine';
+import { describeEvent } from '../describe';
+import { useCatalog } from '../i18n';
+import { LEARNER, TUTOR, TUTORIAL_STEPS, advanceTutorial, dealTutorial } from '../tutorial';
+import { CARD_COLORS, CardFace, SUIT_ICONS } from './CardFace';
+import Dialog from './Dialog';
+import SeatFan from './SeatFan';
+
+interface TutorialProps {
+  onClose: () => void;
+}
+
+const HIGHLIGHT = 'ring-4 ring-amber-400 ring-offset-2 ring-offset-[#1a1a1a] animate-pulse';
+
+/**
+ * A short scripted game against the Tutor. Each step highlights the one move
+ * it teaches and only moves on once that move is made.
+ */
+export default function Tutorial({ onClose }: TutorialProps) {
+  const t = useCatalog();
+  const [index, setIndex] = useState(0);
+  const [state, setState] = useState(() => dealTutorial(t.tutorial.learner, t.tutorial.tutor));
+  const [events, setEvents] = useState<GameEvent[]>([]);
+  const [wrong, setWrong] = useState(false);
+  const step = TUTORIAL_STEPS[index];
+  const lesson = t.tutorial.steps[step.id];
+  const expect = step.expect;
+  const top = topDiscard(state);
+  const last = index === TUTORIAL_STEPS.length - 1;
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const next = () => {
+    setIndex((i) => i + 1);
+    setWrong(false);
+  };
+
+  const attempt = (action: GameAction) => {
+    if (!expect) return;
+    const result = advanceTutorial(state, step, action);
+    if (!result) {
+      setWrong(true);
+      return;
+    }
+    setState(result.state);
+    setEvents(result.events);
+    next();
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[110] bg-[#1a1a1a] overflow-y-auto"
+    >
+      <Dialog labelledBy="tutorial-title" className="min-h-full flex flex-col p-4 md:p-8">
+        <div className="flex justify-between items-center mb-6">
+          <div className="flex items-center gap-3">
+            <GraduationCap className="w-8 h-8 text-emerald-400" />
+            <div>
+              <h2 id="tutorial-title" className="text-2xl font-bold">{t.tutorial.title}</h2>
+              <p className="text-xs text-zinc-400 uppercase tracking-widest font-medium">
+                {t.tutorial.progress(index + 1, TUTORIAL_STEPS.length)}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-full transition-colors" title={t.log.close}>
+            <X className="w-6 h-6 text-zinc-400" />
+          </button>
+        </div>
+
+        <div className="flex-1 flex flex-col items-center gap-8 max-w-3xl mx-auto w-full">
+          <div role="status" className="w-full p-4 bg-emerald-500/10 border border-emerald-500/30 rounded-2xl">
+            <h3 className="font-bold text-emerald-400 mb-1">{lesson.title}</h3>
+            <p className="text-zinc-200">{lesson.text}</p>
+            {wrong && <p className="mt-2 text-sm text-amber-400">{t.tutorial.wrongMove}</p>}
+            {!expect && (
+              <button
+                onClick={last ? onClose : next}
+                data-autofocus
+                className="mt-4 px-6 py-2 bg-white text-zinc-900 font-bold rounded-xl hover:bg-zinc-200 transition-colors"
+              >
+                {last ? t.tutorial.finish : t.tutorial.next}
+              </button>
+            )}
+          </div>
+
+          <SeatFan name={state.table.seats[TUTOR].name} count={state.hands[TUTOR].length} active={state.turn === TUTOR} compact />
+
+          <div className="flex items-center gap-6">
+            <button
+              onClick={() => attempt({ type: 'draw', seat: LEARNER })}
+              aria-label={t.table.drawPile('draw', 0, state.deck.length)}
+              className={`w-12 h-18 md:w-16 md:h-24 bg-emerald-800 rounded-lg border-2 border-white/20 shadow-lg ${expect?.type === 'draw' ? HIGHLIGHT : ''}`}
+            />
+            {top && (
+              <div aria-label={t.table.discardPile(t.card(top), state.currentSuit && t.suit[state.currentSuit])}>
+                <CardFace card={top} />
+              </div>
+            )}
+            {state.currentSuit && (
+              <div className="w-10 h-10 bg-zinc-800 rounded-full border-2 border-white/20 flex items-center justify-center p-2">
+                <div className={CARD_COLORS[state.currentSuit]}>{SUIT_ICONS[state.currentSuit]}</div>
+              </div>
+            )}
+          </div>
+
+          {state.pendingWild && (
+            <div role="group" aria-label={t.suitPicker.prompt(false)} className="flex gap-3">
+              {SUITS.map((suit) => (
+                <button
+                  key={suit}
+                  onClick={() => attempt({ type: 'chooseSuit', seat: LEARNER, suit })}
+                  aria-label={t.suit[suit]}
+                  className={`w-14 h-14 p-3 bg-white rounded-xl ${CARD_COLORS[suit]} ${expect?.type === 'chooseSuit' && expect.suit === suit ? HIGHLIGHT : ''}`}
+                >
+                  {SUIT_ICONS[suit]}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-col items-center gap-3">
+            <span className="text-sm font-medium text-zinc-400">
+              {t.table.hand(state.table.seats[LEARNER].name, true, state.hands[LEARNER].length)}
+            </span>
+            <div className="flex flex-wrap justify-center gap-3">
+              {state.hands[LEARNER].map((card) => {
+                const highlighted = expect?.type === 'play' && expect.cardId === card.id;
+                return (
+                  <div key={card.id}>
+                    <button
+                      onClick={() => attempt({ type: 'play', seat: LEARNER, cardId: card.id })}
+                      aria-label={t.card(card)}
+                      className={`rounded-lg transition-transform ${highlighted ? `-translate-y-2 ${HIGHLIGHT}` : ''}`}
+                    >
+                      <CardFace card={card} dimmed={!!expect && !highlighted} />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+            <button
+              onClick={() => attempt({ type: 'pass', seat: LEARNER })}
+              className={`px-4 py-1.5 text-sm bg-white/5 hover:bg-white/10 rounded-xl ${expect?.type === 'pass' ? HIGHLIGHT : ''}`}
+            >
+              {t.table.pass}
+            </button>
+          </div>
+
+          <div aria-live="polite" className="min-h-12 text-sm text-zinc-400 text-center">
+            {events.map((e) => describeEvent(e, state.table.seats, t)).join(' · ')}
+          </div>
+        </div>
+      </Dialog>
+    </motion.div>
+  );
+}
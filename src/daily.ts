@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GameAction, TableConfig } from './engine';
+import { DEFAULT_RULES, RuleSet } from './rules';
+
+/**
+ * Everyone plays the same daily table: the server seeds the deal from the
+ * date and a secret of its own, and the AI seats answer each position the
+ * same way, so results are comparable. Results are kept per player id with
+ * the day's attempts, not on the leaderboard.
+ */
+export const DAILY_TABLE: TableConfig = {
+  seats: [
+    { name: 'You', kind: 'human' },
+    { name: 'AI 1', kind: 'ai', level: 'normal' },
+    { name: 'AI 2', kind: 'ai', level: 'normal' },
+  ],
+  playToLast: false,
+};
+
+export const DAILY_RULES: RuleSet = DEFAULT_RULES;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The challenge's date as YYYY-MM-DD. Days turn over at midnight UTC, the same moment for the whole team. */
+export const dailyKey = (date: Date = new Date()): string => date.toISOString().slice(0, 10);
+
+export type DailyOutcome = 'won' | 'lost' | 'tied' | 'survived';
+
+/** Leads the shared summary, so a result reads at a glance without giving the deal away. */
+export const DAILY_EMOJI: Record<DailyOutcome, string> = { won: '🏆', survived: '🛡️', tied: '🤝', lost: '💥' };
+
+export interface DailyResult {
+  outcome: DailyOutcome;
+  /** Turns the player took before the game ended. */
+  turns: number;
+}
+
+/** How many turns `seat` took: each unbroken run of its moves is one turn. */
+export const turnsTaken = (moves: GameAction[], seat: number): number =>
+  moves.filter((move, index) => move.seat === seat && moves[index - 1]?.seat !== seat).length;
+
+const PLAYER_KEY = 'crazy-ace-player';
+
+/** This browser's id with the server, which keeps its daily results; made up on first use. */
+export const loadPlayerId = (): string => {
+  let id = localStorage.getItem(PLAYER_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(PLAYER_KEY, id);
+  }
+  return id;
+};
+
+/**
+ * Days in a row the challenge was played, win or lose, counting back from
+ * `today`. Today's challenge not being played yet does not break the streak.
+ */
+export const dailyStreak = (results: Record<string, DailyResult>, today: string = dailyKey()): number => {
+  let day = results[today] ? today : dailyKey(new Date(Date.parse(today) - DAY_MS));
+  let streak = 0;
+  while (results[day]) {
+    streak++;
+    day = dailyKey(new Date(Date.parse(day) - DAY_MS));
+  }
+  return streak;
+};
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { SeatConfig } from './engine';
+import { effectOf } from './rules';
+import { PlayerEvent, PlayerView } from './view';
+import type { Catalog } from './i18n';
+
+/** One line for a move log, as any seat may see it; face-down draws stay anonymous. */
+export const describeEvent = (event: PlayerEvent, seats: SeatConfig[], t: Catalog): string =>
+  t.event(event, (seat) => seats[seat].name);
+
+/** The seat an event is about, if any. */
+export const eventSeat = (event: PlayerEvent): number | null => ('seat' in event ? event.seat : null);
+
+/** Text that is rendered in whichever language is current when it is shown. */
+export type Note = (t: Catalog) => string;
+
+/**
+ * Footer text for one batch of events as `view` saw it arrive; null when
+ * nothing in it is worth announcing.
+ */
+export const describeEvents = (events: PlayerEvent[], view: PlayerView): Note | null => {
+  const name = (seat: number) => view.seats[seat].name;
+
+  const over = events.find((e) => e.type === 'gameOver');
+  if (over?.type === 'gameOver') {
+    const parts: Note[] = [];
+    if (over.reason === 'deadlock') {
+      const tally = view.seats
+        .map((_, seat) => seat)
+        .filter((seat) => !view.out.includes(seat))
+        .map((seat) => `${name(seat)}: ${view.handCounts[seat]}`)
+        .join(', ');
+      parts.push((t) => t.footer.deadlock(tally));
+    } else if (view.playToLast) {
+      const last = name(view.seats.findIndex((_, seat) => !view.out.includes(seat)));
+      parts.push((t) => t.footer.lastHolding(last));
+    } else {
+      const first = name(view.rules.emptyHandLoses ? over.loser! : over.winner!);
+      parts.push((t) => t.footer.clearedFirst(first));
+    }
+    if (over.loser !== null) parts.push((t) => t.footer.loser(name(over.loser!)));
+    if (over.winner !== null) parts.push((t) => t.footer.winner(name(over.winner!)));
+    if (over.loser === null && over.winner === null) parts.push((t) => t.footer.tie);
+    return (t) => parts.map((part) => part(t)).join(' ');
+  }
+
+  const sentences: Note[] = [];
+  const drawn = events.filter((e) => e.type === 'cardDrawn');
+  const rank = view.topDiscard?.rank ?? '';
+  for (const event of events) {
+    switch (event.type) {
+      case 'cardPlayed':
+        if (effectOf(view.rules, event.card.rank) !== 'wild') sentences.push((t) => t.footer.played(name(event.seat), t.card(event.card)));
+        break;
+      case 'suitChanged':
+        sentences.push((t) => t.footer.wildPlayed(name(event.seat), rank, t.suit[event.suit]));
+        break;
+      case 'cardDrawn':
+        // Summarise all draws once, at the first one.
+        if (event !== drawn[0]) break;
+        // Other seats' draws arrive face down.
+        if (drawn.some((e) => e.type === 'cardDrawn' && !e.card)) {
+          sentences.push((t) => t.footer.drewHidden(name(event.seat), drawn.length));
+        } else {
+          sentences.push((t) => t.footer.drew(name(event.seat), drawn.map((e) => (e.type === 'cardDrawn' && e.card ? t.card(e.card) : ''))));
+        }
+        break;
+      case 'drawPenalty':
+        sentences.push((t) => t.footer.mustDraw(name(event.seat), event.cards));
+        break;
+      case 'directionChanged':
+        sentences.push((t) => t.footer.reversed(event.direction));
+        break;
+      case 'deckReshuffled':
+        sentences.push((t) => t.footer.reshuffled);
+        break;
+      case 'turnSkipped':
+        if (event.reason === 'skipped') sentences.push((t) => t.footer.skipped(name(event.seat)));
+        if (event.reason === 'noCards') sentences.push((t) => t.footer.stuck(name(event.seat)));
+        break;
+      case 'seatOut': {
+        const first = event.seat === view.out[0];
+        const loses = view.rules.emptyHandLoses;
+        sentences.push((t) => (first ? t.footer.firstOut(name(event.seat), loses) : t.footer.alsoOut(name(event.seat))));
+        break;
+      }
+    }
+  }
+  return sentences.length > 0 ? (t) => sentences.map((sentence) => sentence(t)).join(' ') : null;
+};
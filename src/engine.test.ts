@@ -0,0 +1,288 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_RULES } from './rules';
+import { DEFAULT_TABLE, GameState, IllegalMoveError, applyAction, createGame } from './engine';
+import { stackedDeal as deal } from './testing';
+
+describe('createGame', () => {
+  it('deals every seat a full hand and turns up a starting discard', () => {
+    const state = createGame(DEFAULT_TABLE, DEFAULT_RULES, 42);
+    expect(state.hands.map((hand) => hand.length)).toEqual([10, 10]);
+    expect(state.discardPile).toHaveLength(1);
+    expect(state.deck).toHaveLength(52 - 21);
+    expect(state.currentSuit).toBe(state.discardPile[0].suit);
+    expect(state.status).toBe('playing');
+  });
+
+  it('deals the same game from the same seed', () => {
+    expect(createGame(DEFAULT_TABLE, DEFAULT_RULES, 7)).toEqual(createGame(DEFAULT_TABLE, DEFAULT_RULES, 7));
+  });
+
+  it('deals short when only Jokers would be left to turn up', () => {
+    // Four full hands of 13 take every suited card, leaving the two Jokers.
+    const table = { ...DEFAULT_TABLE, seats: [0, 1, 2, 3].map((seat) => ({ name: `Player ${seat + 1}`, kind: 'human' as const })) };
+    const state = deal([], 13, { jokers: true }, table);
+    expect(state.hands.map((hand) => hand.length)).toEqual([12, 12, 12, 12]);
+    expect(state.discardPile[0].suit).not.toBeNull();
+    expect(state.deck).toHaveLength(5);
+  });
+});
+
+describe('emptying a hand', () => {
+  // Seat 0 holds only the 3 of hearts; the 7 of hearts is turned up.
+  const ids = ['3-hearts-1', '9-clubs-1', '7-hearts-1'];
+
+  it('loses for the first seat out under the misère rule', () => {
+    const { state, events } = applyAction(deal(ids, 1), { type: 'play', seat: 0, cardId: '3-hearts-1' });
+    expect(state.status).toBe('over');
+    expect(state.loser).toBe(0);
+    expect(state.winner).toBeNull();
+    expect(events).toContainEqual({ type: 'gameOver', loser: 0, winner: null, reason: 'emptiedHand' });
+  });
+
+  it('wins for the first seat out when emptyHandLoses is off', () => {
+    const { state } = applyAction(deal(ids, 1, { emptyHandLoses: false }), { type: 'play', seat: 0, cardId: '3-hearts-1' });
+    expect(state.status).toBe('over');
+    expect(state.winner).toBe(0);
+    expect(state.loser).toBeNull();
+  });
+
+  it('gives the last seat holding cards the win when playing to the last', () => {
+    const start = deal(ids, 1, {}, { ...DEFAULT_TABLE, playToLast: true });
+    const { state } = applyAction(start, { type: 'play', seat: 0, cardId: '3-hearts-1' });
+    expect(state.status).toBe('over');
+    expect(state.loser).toBe(0);
+    expect(state.winner).toBe(1);
+  });
+
+  it('keeps the game going while the seat still holds cards', () => {
+    const { state } = applyAction(deal(['3-hearts-1', '4-clubs-1', '9-clubs-1', '10-clubs-1', '7-hearts-1'], 2), {
+      type: 'play',
+      seat: 0,
+      cardId: '3-hearts-1',
+    });
+    expect(state.status).toBe('playing');
+    expect(state.turn).toBe(1);
+  });
+});
+
+describe('the wild Ace', () => {
+  // Seat 0 holds an Ace and a club against the 7 of hearts.
+  const ids = ['A-spades-1', '4-clubs-1', '9-diamonds-1', '10-diamonds-1', '7-hearts-1'];
+
+  it('waits for its player to choose a suit, then makes it the suit to follow', () => {
+    const played = applyAction(deal(ids, 2), { type: 'play', seat: 0, cardId: 'A-spades-1' });
+    expect(played.state.pendingWild?.id).toBe('A-spades-1');
+    expect(played.state.turn).toBe(0);
+
+    const { state, events } = applyAction(played.state, { type: 'chooseSuit', seat: 0, suit: 'clubs' });
+    expect(state.currentSuit).toBe('clubs');
+    expect(state.pendingWild).toBeNull();
+    expect(state.turn).toBe(1);
+    expect(events).toContainEqual({ type: 'suitChanged', seat: 0, suit: 'clubs' });
+  });
+
+  it('refuses other moves until the suit is chosen', () => {
+    const { state } = applyAction(deal(ids, 2), { type: 'play', seat: 0, cardId: 'A-spades-1' });
+    expect(() => applyAction(state, { type: 'draw', seat: 0 })).toThrow(IllegalMoveError);
+  });
+});
+
+describe('illegal moves', () => {
+  const ids = ['4-clubs-1', '3-hearts-1', '9-diamonds-1', '10-diamonds-1', '7-hearts-1'];
+
+  it('rejects a card that matches neither suit nor rank', () => {
+    const state = deal(ids, 2);
+    expect(() => applyAction(state, { type: 'play', seat: 0, cardId: '4-clubs-1' })).toThrow(IllegalMoveError);
+  });
+
+  it('rejects a move out of turn', () => {
+    expect(() => applyAction(deal(ids, 2), { type: 'play', seat: 1, cardId: '9-diamonds-1' })).toThrow(IllegalMoveError);
+  });
+
+  it('rejects a card the seat does not hold', () => {
+    expect(() => applyAction(deal(ids, 2), { type: 'play', seat: 0, cardId: '7-clubs-1' })).toThrow(IllegalMoveError);
+  });
+
+  it('leaves the state untouched', () => {
+    const state = deal(ids, 2);
+    const before = structuredClone(state);
+    expect(() => applyAction(state, { type: 'play', seat: 0, cardId: '4-clubs-1' })).toThrow();
+    expect(state).toEqual(before);
+  });
+});
+
+describe('running out of cards', () => {
+  // Seat 0 holds two clubs and seat 1 two diamonds against the 7 of hearts: nobody can play.
+  const ids = ['4-clubs-1', '5-clubs-1', '9-diamonds-1', '10-diamonds-1', '7-hearts-1'];
+  const extraClub = (state: GameState) => state.deck.find((card) => card.id === '6-clubs-1')!;
+
+  it('reshuffles everything under the top discard into a new deck', () => {
+    const dealt = deal(ids, 2);
+    const [first, second] = dealt.deck;
+    const state = { ...dealt, deck: [], discardPile: [first, second, ...dealt.discardPile] };
+    const { state: after, events } = applyAction(state, { type: 'draw', seat: 0 });
+    expect(events[0]).toEqual({ type: 'deckReshuffled', cards: 2 });
+    expect(after.discardPile.map((card) => card.id)).toEqual(['7-hearts-1']);
+    expect(after.hands[0]).toHaveLength(3);
+    expect(after.deck).toHaveLength(1);
+    expect(after.reshuffles).toBe(1);
+  });
+
+  it('ends in a deadlock once every seat passes with nothing left to draw', () => {
+    const state = { ...deal(ids, 2), deck: [] };
+    const passed = applyAction(state, { type: 'pass', seat: 0 });
+    expect(passed.state.status).toBe('playing');
+    const { state: after, events } = applyAction(passed.state, { type: 'pass', seat: 1 });
+    expect(after.status).toBe('over');
+    expect(after.endReason).toBe('deadlock');
+    // Level hands leave nobody to blame.
+    expect(events).toContainEqual({ type: 'gameOver', loser: null, winner: null, reason: 'deadlock' });
+  });
+
+  it('gives a deadlock to the biggest hand when emptying it loses', () => {
+    const dealt = deal(ids, 2);
+    const state = { ...dealt, deck: [], hands: [[...dealt.hands[0], extraClub(dealt)], dealt.hands[1]] };
+    const passed = applyAction(state, { type: 'pass', seat: 0 }).state;
+    const { state: after } = applyAction(passed, { type: 'pass', seat: 1 });
+    expect(after.winner).toBe(0);
+    expect(after.loser).toBe(1);
+  });
+
+  it('gives a deadlock to the smallest hand when emptying it wins', () => {
+    const dealt = deal(ids, 2, { emptyHandLoses: false });
+    const state = { ...dealt, deck: [], hands: [[...dealt.hands[0], extraClub(dealt)], dealt.hands[1]] };
+    const passed = applyAction(state, { type: 'pass', seat: 0 }).state;
+    const { state: after } = applyAction(passed, { type: 'pass', seat: 1 });
+    expect(after.winner).toBe(1);
+    expect(after.loser).toBe(0);
+  });
+});
+
+describe('action cards', () => {
+  const threeSeats = { ...DEFAULT_TABLE, seats: [...DEFAULT_TABLE.seats, { name: 'AI 2', kind: 'ai' as const }] };
+
+  describe('draw-two', () => {
+    // Seat 0 holds the 2 of hearts, seat 1 the 2 of clubs, against the 7 of hearts.
+    const ids = ['2-hearts-1', '4-spades-1', '2-clubs-1', '9-diamonds-1', '7-hearts-1'];
+    const effects = { '2': 'drawTwo' as const };
+
+    it('makes the next seat take two cards and lose its turn', () => {
+      const played = applyAction(deal(ids, 2, { effects }), { type: 'play', seat: 0, cardId: '2-hearts-1' });
+      expect(played.state.turn).toBe(1);
+      expect(played.state.pendingDraw).toBe(2);
+      expect(played.events).toContainEqual({ type: 'drawPenalty', seat: 1, cards: 2 });
+
+      const { state } = applyAction(played.state, { type: 'draw', seat: 1 });
+      expect(state.hands[1]).toHaveLength(4);
+      expect(state.pendingDraw).toBe(0);
+      expect(state.turn).toBe(0);
+    });
+
+    it('stacks on another draw-two when the rules allow it', () => {
+      const played = applyAction(deal(ids, 2, { effects, stackDrawTwo: true }), { type: 'play', seat: 0, cardId: '2-hearts-1' });
+      const { state, events } = applyAction(played.state, { type: 'play', seat: 1, cardId: '2-clubs-1' });
+      expect(state.pendingDraw).toBe(4);
+      expect(state.turn).toBe(0);
+      expect(events).toContainEqual({ type: 'drawPenalty', seat: 0, cards: 4 });
+    });
+
+    it('refuses to stack when the rules do not allow it', () => {
+      const { state } = applyAction(deal(ids, 2, { effects }), { type: 'play', seat: 0, cardId: '2-hearts-1' });
+      expect(() => applyAction(state, { type: 'play', seat: 1, cardId: '2-clubs-1' })).toThrow(IllegalMoveError);
+    });
+  });
+
+  describe('skip and reverse', () => {
+    // With three seats, seat 0 holds the Queen and Jack of hearts against the 7 of hearts.
+    const ids = ['Q-hearts-1', 'J-hearts-1', '4-clubs-1', '5-clubs-1', '4-spades-1', '5-spades-1', '7-hearts-1'];
+    const effects = { Q: 'skip' as const, J: 'reverse' as const };
+
+    it('skips the next seat', () => {
+      const { state, events } = applyAction(deal(ids, 2, { effects }, threeSeats), { type: 'play', seat: 0, cardId: 'Q-hearts-1' });
+      expect(state.turn).toBe(2);
+      expect(events).toContainEqual({ type: 'turnSkipped', seat: 1, reason: 'skipped' });
+    });
+
+    it('reverses the turn order with three seats or more', () => {
+      const { state, events } = applyAction(deal(ids, 2, { effects }, threeSeats), { type: 'play', seat: 0, cardId: 'J-hearts-1' });
+      expect(state.direction).toBe(-1);
+      expect(state.turn).toBe(2);
+      expect(events).toContainEqual({ type: 'directionChanged', direction: -1 });
+    });
+
+    it('acts as a skip heads-up', () => {
+      const headsUp = ['Q-hearts-1', 'J-hearts-1', '4-clubs-1', '5-clubs-1', '7-hearts-1'];
+      const { state, events } = applyAction(deal(headsUp, 2, { effects }), { type: 'play', seat: 0, cardId: 'J-hearts-1' });
+      expect(state.direction).toBe(1);
+      expect(state.turn).toBe(0);
+      expect(events).toContainEqual({ type: 'turnSkipped', seat: 1, reason: 'skipped' });
+    });
+  });
+});
+
+describe('draw policies', () => {
+  // Seat 0 holds two clubs against the 7 of hearts; then come the 8 of clubs, 9 of clubs and 3 of hearts.
+  const ids = ['4-clubs-1', '5-clubs-1', '9-diamonds-1', '10-diamonds-1', '7-hearts-1', '8-clubs-1', '9-clubs-1', '3-hearts-1'];
+  // The same, but seat 0 also holds the playable 6 of hearts.
+  const holding = ['4-clubs-1', '6-hearts-1', '9-diamonds-1', '10-diamonds-1', '7-hearts-1', '8-clubs-1', '9-clubs-1', '3-hearts-1'];
+
+  it('refuses a pass before drawing', () => {
+    expect(() => applyAction(deal(ids, 2), { type: 'pass', seat: 0 })).toThrow('You must draw before passing.');
+  });
+
+  it('allows drawing while holding a playable card', () => {
+    const { state } = applyAction(deal(holding, 2), { type: 'draw', seat: 0 });
+    expect(state.hands[0]).toHaveLength(3);
+    expect(state.turn).toBe(0);
+  });
+
+  describe('one', () => {
+    it('ends the turn when the drawn card cannot be played', () => {
+      const { state } = applyAction(deal(ids, 2), { type: 'draw', seat: 0 });
+      expect(state.hands[0].map((card) => card.id)).toContain('8-clubs-1');
+      expect(state.turn).toBe(1);
+    });
+
+    it('allows one draw, then a play or a pass', () => {
+      const { state } = applyAction(deal(holding, 2), { type: 'draw', seat: 0 });
+      expect(() => applyAction(state, { type: 'draw', seat: 0 })).toThrow('You have already drawn this turn.');
+
+      const passed = applyAction(state, { type: 'pass', seat: 0 });
+      expect(passed.state.turn).toBe(1);
+      expect(passed.events).toEqual([{ type: 'turnSkipped', seat: 0, reason: 'pass' }]);
+    });
+  });
+
+  describe('untilPlayable', () => {
+    it('keeps drawing until a playable card turns up', () => {
+      const { state, events } = applyAction(deal(ids, 2, { drawPolicy: 'untilPlayable' }), { type: 'draw', seat: 0 });
+      expect(events.filter((event) => event.type === 'cardDrawn')).toHaveLength(3);
+      expect(state.hands[0].map((card) => card.id)).toEqual(['4-clubs-1', '5-clubs-1', '8-clubs-1', '9-clubs-1', '3-hearts-1']);
+      expect(state.turn).toBe(0);
+    });
+  });
+
+  describe('upTo', () => {
+    it('draws one card at a time and ends the turn at the limit with nothing to play', () => {
+      const first = applyAction(deal(ids, 2, { drawPolicy: 'upTo', drawLimit: 2 }), { type: 'draw', seat: 0 });
+      expect(first.state.turn).toBe(0);
+      const { state } = applyAction(first.state, { type: 'draw', seat: 0 });
+      expect(state.hands[0]).toHaveLength(4);
+      expect(state.turn).toBe(1);
+    });
+
+    it('refuses a draw past the limit', () => {
+      let state = deal(holding, 2, { drawPolicy: 'upTo', drawLimit: 2 });
+      state = applyAction(state, { type: 'draw', seat: 0 }).state;
+      state = applyAction(state, { type: 'draw', seat: 0 }).state;
+      expect(state.turn).toBe(0);
+      expect(() => applyAction(state, { type: 'draw', seat: 0 })).toThrow('No more than 2 cards may be drawn a turn.');
+      expect(applyAction(state, { type: 'pass', seat: 0 }).state.turn).toBe(1);
+    });
+  });
+});
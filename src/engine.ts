@@ -0,0 +1,472 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Card, SUITS, Suit, cardName, createDeck, shuffleDeck } from './types';
+import { mulberry32, randomSeed } from './random';
+import { DEFAULT_RULES, RuleSet, effectOf } from './rules';
+
+/**
+ * Pure Crazy Ace rules engine.
+ *
+ * Nothing in here touches React, timers or the DOM: a game is a plain
+ * `GameState` value and every move goes through `applyAction`, which either
+ * throws an `IllegalMoveError` or returns the next state together with the
+ * events the move produced.
+ */
+
+export type SeatKind = 'human' | 'ai';
+
+export type AiLevel = 'easy' | 'normal' | 'hard' | 'llm';
+
+export const AI_LEVELS: AiLevel[] = ['easy', 'normal', 'hard', 'llm'];
+
+export interface SeatConfig {
+  name: string;
+  kind: SeatKind;
+  /** Strategy used by an AI seat; defaults to `normal`. */
+  level?: AiLevel;
+}
+
+/** Who sits at the table, clockwise from the seat that plays first. */
+export interface TableConfig {
+  seats: SeatConfig[];
+  /**
+   * When false the game ends as soon as one seat empties their hand. When true
+   * emptied seats drop out and play continues until a single seat still holds
+   * cards; that seat gets the opposite result of the first seat out.
+   */
+  playToLast: boolean;
+}
+
+export const MIN_SEATS = 2;
+export const MAX_SEATS = 6;
+export const MAX_NAME_LENGTH = 20;
+
+export const DEFAULT_TABLE: TableConfig = {
+  seats: [
+    { name: 'You', kind: 'human' },
+    { name: 'AI', kind: 'ai' },
+  ],
+  playToLast: false,
+};
+
+export interface GameState {
+  /** Seed the deck was shuffled with; together with `moves` it replays the game. */
+  seed: number;
+  /** Every accepted action, in order. */
+  moves: GameAction[];
+  table: TableConfig;
+  rules: RuleSet;
+  deck: Card[];
+  /** One hand per seat, indexed like `table.seats`. */
+  hands: Card[][];
+  discardPile: Card[];
+  currentSuit: Suit | null;
+  /** Seat index whose turn it is. */
+  turn: number;
+  /** 1 while play runs clockwise, -1 after an odd number of reverses. */
+  direction: 1 | -1;
+  /** Wild card that has been played but whose new suit has not been picked yet. */
+  pendingWild: Card | null;
+  /** Cards the seat on turn must draw because of draw-two cards played at them. */
+  pendingDraw: number;
+  /** Whether the seat on turn has already drawn this turn. */
+  hasDrawn: boolean;
+  /** Cards the seat on turn has drawn by choice this turn, penalties aside. */
+  drawsThisTurn: number;
+  /** How many times the discard pile has been turned into a new deck. */
+  reshuffles: number;
+  /** Passes in a row made with nothing left to draw; ends the game in a deadlock. */
+  stuckPasses: number;
+  /** Seats that have emptied their hand, in the order they did so. */
+  out: number[];
+  status: 'playing' | 'over';
+  /** Seat that lost; null while undecided or when nobody did. */
+  loser: number | null;
+  /** Seat that won; null while undecided or when nobody did. */
+  winner: number | null;
+  endReason: EndReason | null;
+}
+
+/**
+ * `emptiedHand`: a seat played their last card. Under the misère rule that
+ * seat loses (and, when playing to the last, the final seat holding cards
+ * wins); otherwise the results are flipped.
+ * `deadlock`: the deck and discard pile are exhausted and every remaining seat
+ * passed in a row; hand sizes decide, equal hands are a tie.
+ */
+export type EndReason = 'emptiedHand' | 'deadlock';
+
+export type GameAction =
+  | { type: 'play'; seat: number; cardId: string }
+  | { type: 'chooseSuit'; seat: number; suit: Suit }
+  | { type: 'draw'; seat: number }
+  | { type: 'pass'; seat: number };
+
+/**
+ * Why a seat's turn went by without a card being played: they chose to `pass`
+ * after drawing, had `noCards` left to draw, or were `skipped` by a card.
+ */
+export type SkipReason = 'pass' | 'noCards' | 'skipped';
+
+export type GameEvent =
+  | { type: 'cardPlayed'; seat: number; card: Card }
+  | { type: 'suitChanged'; seat: number; suit: Suit }
+  | { type: 'cardDrawn'; seat: number; card: Card }
+  | { type: 'drawPenalty'; seat: number; cards: number }
+  | { type: 'directionChanged'; direction: 1 | -1 }
+  | { type: 'deckReshuffled'; cards: number }
+  | { type: 'turnSkipped'; seat: number; reason: SkipReason }
+  | { type: 'seatOut'; seat: number }
+  | { type: 'gameOver'; loser: number | null; winner: number | null; reason: EndReason };
+
+export interface ActionResult {
+  state: GameState;
+  events: GameEvent[];
+}
+
+export class IllegalMoveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IllegalMoveError';
+  }
+}
+
+/** Seats still holding cards, in seat order. */
+export const activeSeats = (state: GameState): number[] =>
+  state.hands.map((_, seat) => seat).filter((seat) => !state.out.includes(seat));
+
+/** Next seat in the current direction of play that is still in the game. */
+export const nextSeat = (state: GameState, seat: number): number => {
+  const count = state.hands.length;
+  for (let step = 1; step <= count; step++) {
+    const candidate = (((seat + step * state.direction) % count) + count) % count;
+    if (!state.out.includes(candidate)) return candidate;
+  }
+  return seat;
+};
+
+export const topDiscard = (state: GameState): Card | undefined =>
+  state.discardPile[state.discardPile.length - 1];
+
+export const isWild = (state: GameState, card: Card): boolean => effectOf(state.rules, card.rank) === 'wild';
+
+export const canPlay = (state: GameState, card: Card): boolean => {
+  const top = topDiscard(state);
+  if (!top) return false;
+  const effect = effectOf(state.rules, card.rank);
+  // A pending draw-two can only be answered by stacking another one.
+  if (state.pendingDraw > 0) return state.rules.stackDrawTwo && effect === 'drawTwo';
+  if (effect === 'wild') return true;
+  return card.suit === state.currentSuit || card.rank === top.rank;
+};
+
+/** Whether a card can still be drawn, counting a reshuffle of the discard pile. */
+export const canDraw = (state: GameState): boolean =>
+  state.deck.length > 0 || state.discardPile.length > 1;
+
+/** Whether the seat on turn may draw (again) under the table's draw policy. */
+export const mayDraw = (state: GameState): boolean => {
+  if (!canDraw(state)) return false;
+  if (state.pendingDraw > 0 || !state.hasDrawn) return true;
+  return state.rules.drawPolicy === 'upTo' && state.drawsThisTurn < state.rules.drawLimit;
+};
+
+/** Cards dealt to each seat, shrunk so big tables still leave a starting discard. */
+export const dealSize = (deckSize: number, seats: number, handSize: number): number =>
+  Math.min(handSize, Math.floor((deckSize - 1) / seats));
+
+/** Deals a new game from the given (already shuffled) deck. */
+export const dealGame = (
+  deck: Card[],
+  seed: number,
+  table: TableConfig = DEFAULT_TABLE,
+  rules: RuleSet = DEFAULT_RULES,
+): GameState => {
+  if (table.seats.length < MIN_SEATS || table.seats.length > MAX_SEATS) {
+    throw new RangeError(`A table needs ${MIN_SEATS} to ${MAX_SEATS} seats.`);
+  }
+
+  // The starting discard never triggers its rank's effect. A Joker has no
+  // suit to follow, so the first suited card is turned up instead; when only
+  // Jokers are left undealt, every hand is dealt one card short until one is.
+  let size = dealSize(deck.length, table.seats.length, rules.handSize);
+  while (!deck.slice(size * table.seats.length).some((card) => card.suit !== null)) size--;
+  const hands = table.seats.map((_, seat) => deck.slice(seat * size, (seat + 1) * size));
+  const dealt = size * table.seats.length;
+  const start = deck.findIndex((card, index) => index >= dealt && card.suit !== null);
+  const initialDiscard = deck[start];
+
+  return {
+    seed,
+    moves: [],
+    table,
+    rules,
+    deck: deck.filter((_, index) => index >= dealt && index !== start),
+    hands,
+    discardPile: [initialDiscard],
+    currentSuit: initialDiscard.suit,
+    turn: 0,
+    direction: 1,
+    pendingWild: null,
+    pendingDraw: 0,
+    hasDrawn: false,
+    drawsThisTurn: 0,
+    reshuffles: 0,
+    stuckPasses: 0,
+    out: [],
+    status: 'playing',
+    loser: null,
+    winner: null,
+    endReason: null,
+  };
+};
+
+export const createGame = (
+  table: TableConfig = DEFAULT_TABLE,
+  rules: RuleSet = DEFAULT_RULES,
+  seed: number = randomSeed(),
+): GameState => dealGame(shuffleDeck(createDeck(rules.decks, rules.jokers), mulberry32(seed)), seed, table, rules);
+
+const endTurn = (state: GameState): GameState => ({
+  ...state,
+  turn: nextSeat(state, state.turn),
+  hasDrawn: false,
+  drawsThisTurn: 0,
+});
+
+const withHand = (state: GameState, seat: number, hand: Card[]): Card[][] =>
+  state.hands.map((h, i) => (i === seat ? hand : h));
+
+/** Returns the only seat whose hand size equals `pick` of all sizes, or null on a tie. */
+const uniqueBy = (state: GameState, seats: number[], pick: (...sizes: number[]) => number): number | null => {
+  const target = pick(...seats.map((seat) => state.hands[seat].length));
+  const matches = seats.filter((seat) => state.hands[seat].length === target);
+  return matches.length === 1 ? matches[0] : null;
+};
+
+/** Gives `seat`, the first or last one out, whichever result the rules assign it. */
+const settle = (state: GameState, seat: number, first: boolean): Pick<GameState, 'loser' | 'winner'> =>
+  first === state.rules.emptyHandLoses
+    ? { loser: state.loser ?? seat, winner: state.winner }
+    : { loser: state.loser, winner: state.winner ?? seat };
+
+const finishIfEmpty = (state: GameState, seat: number, events: GameEvent[]): GameState => {
+  // Rule: First to empty hand LOSES (unless the house rules flip it)
+  if (state.hands[seat].length > 0) return state;
+
+  const result = state.out.length === 0 ? settle(state, seat, true) : { loser: state.loser, winner: state.winner };
+  if (!state.table.playToLast) {
+    events.push({ type: 'gameOver', ...result, reason: 'emptiedHand' });
+    return { ...state, ...result, status: 'over', endReason: 'emptiedHand', pendingWild: null };
+  }
+
+  const out = [...state.out, seat];
+  const remaining = state.hands.map((_, i) => i).filter((i) => !out.includes(i));
+  if (remaining.length > 1) {
+    events.push({ type: 'seatOut', seat });
+    return { ...state, ...result, out };
+  }
+
+  const last = settle({ ...state, ...result }, remaining[0], false);
+  events.push({ type: 'gameOver', ...last, reason: 'emptiedHand' });
+  return { ...state, ...last, out, status: 'over', endReason: 'emptiedHand', pendingWild: null };
+};
+
+const finishDeadlock = (state: GameState, events: GameEvent[]): GameState => {
+  const seats = activeSeats(state);
+  const fewest = uniqueBy(state, seats, Math.min);
+  const most = uniqueBy(state, seats, Math.max);
+  const loser = state.loser ?? (state.rules.emptyHandLoses ? fewest : most);
+  const winner = state.winner ?? (state.rules.emptyHandLoses ? most : fewest);
+  events.push({ type: 'gameOver', loser, winner, reason: 'deadlock' });
+  return { ...state, status: 'over', loser, winner, endReason: 'deadlock' };
+};
+
+/** Turns everything under the top discard into a freshly shuffled deck. */
+const reshuffle = (state: GameState, events: GameEvent[]): GameState => {
+  const top = state.discardPile[state.discardPile.length - 1];
+  const reshuffles = state.reshuffles + 1;
+  // Derive each reshuffle from the game seed so replays stay deterministic.
+  const rng = mulberry32((state.seed ^ Math.imul(reshuffles, 0x9e3779b9)) >>> 0);
+  const deck = shuffleDeck(state.discardPile.slice(0, -1), rng);
+
+  events.push({ type: 'deckReshuffled', cards: deck.length });
+  return { ...state, deck, discardPile: [top], reshuffles };
+};
+
+/** Moves the top card of the deck (reshuffling first if needed) into `seat`'s hand. */
+const drawOne = (state: GameState, seat: number, events: GameEvent[]): GameState => {
+  const source = state.deck.length > 0 ? state : reshuffle(state, events);
+  const [card, ...deck] = source.deck;
+  events.push({ type: 'cardDrawn', seat, card });
+  return { ...source, deck, hands: withHand(source, seat, [...source.hands[seat], card]) };
+};
+
+const skipNext = (state: GameState, seat: number, events: GameEvent[]): GameState => {
+  const skipped = nextSeat(state, seat);
+  events.push({ type: 'turnSkipped', seat: skipped, reason: 'skipped' });
+  return endTurn({ ...state, turn: skipped });
+};
+
+/** Hands the turn on after `card` was played, applying its rank's effect. */
+const passTurnAfter = (state: GameState, seat: number, card: Card, events: GameEvent[]): GameState => {
+  switch (effectOf(state.rules, card.rank)) {
+    case 'drawTwo': {
+      const next = endTurn(state);
+      const pendingDraw = state.pendingDraw + 2;
+      events.push({ type: 'drawPenalty', seat: next.turn, cards: pendingDraw });
+      return { ...next, pendingDraw };
+    }
+    case 'skip':
+      return skipNext(state, seat, events);
+    case 'reverse': {
+      // Heads-up, reversing just hands the turn straight back.
+      if (activeSeats(state).length <= 2) return skipNext(state, seat, events);
+      const direction = state.direction === 1 ? -1 : 1;
+      events.push({ type: 'directionChanged', direction });
+      return endTurn({ ...state, direction });
+    }
+    default:
+      return endTurn(state);
+  }
+};
+
+const assertTurn = (state: GameState, action: GameAction) => {
+  if (state.status !== 'playing') {
+    throw new IllegalMoveError('The game is already over.');
+  }
+  if (action.seat !== state.turn) {
+    throw new IllegalMoveError(`It is not seat ${action.seat}'s turn.`);
+  }
+  if (state.pendingWild && action.type !== 'chooseSuit') {
+    throw new IllegalMoveError('A suit must be chosen for the wild card first.');
+  }
+};
+
+const play = (state: GameState, seat: number, cardId: string): ActionResult => {
+  const card = state.hands[seat].find((c) => c.id === cardId);
+  if (!card) throw new IllegalMoveError(`Card ${cardId} is not in seat ${seat}'s hand.`);
+  if (!canPlay(state, card)) throw new IllegalMoveError(`${cardName(card)} cannot be played now.`);
+
+  const events: GameEvent[] = [{ type: 'cardPlayed', seat, card }];
+  const played = finishIfEmpty(
+    {
+      ...state,
+      stuckPasses: 0,
+      hands: withHand(state, seat, state.hands[seat].filter((c) => c.id !== card.id)),
+      discardPile: [...state.discardPile, card],
+    },
+    seat,
+    events,
+  );
+  if (played.status === 'over') return { state: played, events };
+
+  if (isWild(state, card)) {
+    return { state: { ...played, pendingWild: card }, events };
+  }
+  return { state: passTurnAfter({ ...played, currentSuit: card.suit }, seat, card, events), events };
+};
+
+const chooseSuit = (state: GameState, seat: number, suit: Suit): ActionResult => {
+  if (!state.pendingWild) throw new IllegalMoveError('There is no wild card waiting for a suit.');
+
+  return {
+    state: endTurn({ ...state, currentSuit: suit, pendingWild: null }),
+    events: [{ type: 'suitChanged', seat, suit }],
+  };
+};
+
+const draw = (state: GameState, seat: number): ActionResult => {
+  if (!canDraw(state)) throw new IllegalMoveError('There are no cards left to draw.');
+  if (!mayDraw(state)) {
+    throw new IllegalMoveError(
+      state.rules.drawPolicy === 'upTo' ? `No more than ${state.rules.drawLimit} cards may be drawn a turn.` : 'You have already drawn this turn.',
+    );
+  }
+
+  const events: GameEvent[] = [];
+  if (state.pendingDraw > 0) {
+    // Take the whole penalty (or what is left of the cards) and lose the turn.
+    let next: GameState = state;
+    for (let i = 0; i < state.pendingDraw && canDraw(next); i++) next = drawOne(next, seat, events);
+    return { state: endTurn({ ...next, pendingDraw: 0, stuckPasses: 0 }), events };
+  }
+
+  let drawn = state;
+  let card: Card;
+  do {
+    drawn = { ...drawOne(drawn, seat, events), hasDrawn: true, drawsThisTurn: drawn.drawsThisTurn + 1, stuckPasses: 0 };
+    card = drawn.hands[seat][drawn.hands[seat].length - 1];
+  } while (state.rules.drawPolicy === 'untilPlayable' && !canPlay(drawn, card) && canDraw(drawn));
+
+  // The turn only carries on while there is a choice left: a card to play or another draw.
+  const stuck = !mayDraw(drawn) && !drawn.hands[seat].some((c) => canPlay(drawn, c));
+  return { state: stuck ? endTurn(drawn) : drawn, events };
+};
+
+const pass = (state: GameState, seat: number): ActionResult => {
+  const noCards = !canDraw(state);
+  if (!state.hasDrawn && !noCards) {
+    throw new IllegalMoveError('You must draw before passing.');
+  }
+
+  const events: GameEvent[] = [{ type: 'turnSkipped', seat, reason: noCards ? 'noCards' : 'pass' }];
+  // With nothing left to draw a penalty simply lapses.
+  const stuckPasses = noCards && !state.hasDrawn ? state.stuckPasses + 1 : 0;
+  if (stuckPasses >= activeSeats(state).length) {
+    return { state: finishDeadlock({ ...state, stuckPasses, pendingDraw: 0 }, events), events };
+  }
+  return { state: endTurn({ ...state, stuckPasses, pendingDraw: 0 }), events };
+};
+
+const resolve = (state: GameState, action: GameAction): ActionResult => {
+  switch (action.type) {
+    case 'play':
+      return play(state, action.seat, action.cardId);
+    case 'chooseSuit':
+      return chooseSuit(state, action.seat, action.suit);
+    case 'draw':
+      return draw(state, action.seat);
+    case 'pass':
+      return pass(state, action.seat);
+  }
+};
+
+/**
+ * Applies a single action and returns the resulting state plus the events it
+ * produced. Throws `IllegalMoveError` when the action breaks the rules.
+ */
+export const applyAction = (state: GameState, action: GameAction): ActionResult => {
+  assertTurn(state, action);
+
+  const result = resolve(state, action);
+  return { ...result, state: { ...result.state, moves: [...state.moves, action] } };
+};
+
+/** Every action the seat on turn may take right now. */
+export const legalActions = (state: GameState): GameAction[] => {
+  if (state.status !== 'playing') return [];
+  const seat = state.turn;
+  if (state.pendingWild) return SUITS.map((suit) => ({ type: 'chooseSuit', seat, suit }));
+
+  const actions: GameAction[] = state.hands[seat]
+    .filter((card) => canPlay(state, card))
+    .map((card) => ({ type: 'play', seat, cardId: card.id }));
+  if (mayDraw(state)) actions.push({ type: 'draw', seat });
+  if (state.hasDrawn || !canDraw(state)) actions.push({ type: 'pass', seat });
+  return actions;
+};
+
+/** Convenience wrapper returning whether `action` would be accepted. */
+export const isLegal = (state: GameState, action: GameAction): boolean => {
+  try {
+    applyAction(state, action);
+    return true;
+  } catch (err) {
+    if (err instanceof IllegalMoveError) return false;
+    throw err;
+  }
+};
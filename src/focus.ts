@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { RefObject, useEffect } from 'react';
+
+const FOCUSABLE = 'button:not([disabled]), [href], input:not([disabled]), select:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+/**
+ * Keeps keyboard focus inside a modal while it is mounted: focuses its first
+ * control (or the one marked `data-autofocus`), wraps Tab at either end, and
+ * hands focus back to whatever had it before the modal opened.
+ */
+export const useModalFocus = (ref: RefObject<HTMLElement | null>) => {
+  useEffect(() => {
+    const container = ref.current;
+    if (!container) return;
+    const previous = document.activeElement as HTMLElement | null;
+    const focusable = (): HTMLElement[] => Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE));
+
+    (container.querySelector<HTMLElement>('[data-autofocus]') ?? focusable()[0] ?? container).focus();
+
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key !== 'Tab') return;
+      const items = focusable();
+      if (items.length === 0) return e.preventDefault();
+      const first = items[0];
+      const last = items[items.length - 1];
+      if (e.shiftKey && document.activeElement === first) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && document.activeElement === last) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+    container.addEventListener('keydown', onKey);
+    return () => {
+      container.removeEventListener('keydown', onKey);
+      if (previous?.isConnected) previous.focus();
+    };
+  }, [ref]);
+};
+
+/** Whether a key press came from a text field, where letters must not act as hotkeys. */
+export const isTyping = (e: KeyboardEvent) => {
+  const target = e.target as HTMLElement | null;
+  return !!target && (target.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName));
+};
@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Card, JOKER, Suit } from './types';
+import { GameAction } from './engine';
+import { effectOf } from './rules';
+import { PlayerView } from './view';
+import { LOW_HAND } from './review';
+import { AI_STRATEGIES, DEFAULT_AI_LEVEL } from './ai';
+import { cardOf, isWildIn, strongestSuit } from './ai/strategy';
+import { Note } from './describe';
+
+export interface CardHint {
+  playable: boolean;
+  /** Why the card can or cannot be played, in the terms the engine's `canPlay` uses. */
+  reason: Note;
+  /** Set when playing the card runs the hand low while emptying it loses. */
+  warning: Note | null;
+}
+
+export interface MoveHint {
+  action: GameAction;
+  reason: Note;
+}
+
+export interface SuitHint {
+  suit: Suit;
+  reason: Note;
+}
+
+const lowHandWarning = (view: PlayerView): Note | null => {
+  const left = view.hand.length - 1;
+  if (!view.rules.emptyHandLoses || left > LOW_HAND) return null;
+  if (left === 0) return (t) => t.hints.lastCard;
+  const holdBack = view.legal.find((a) => a.type === 'draw' || a.type === 'pass');
+  return (t) => t.hints.lowHand(left, holdBack ? (holdBack.type as 'draw' | 'pass') : null);
+};
+
+/** Explains a card in the viewer's hand against the current discard, mirroring `canPlay`. */
+export const explainCard = (view: PlayerView, card: Card): CardHint => {
+  const playable = view.legal.some((a) => a.type === 'play' && a.cardId === card.id);
+  const warning = playable ? lowHandWarning(view) : null;
+  const top = view.topDiscard;
+  const hint = (reason: Note): CardHint => ({ playable, reason, warning });
+
+  if (view.legal.length === 0) return hint((t) => t.hints.notYourTurn);
+  if (view.pendingWild) return hint((t) => t.hints.chooseSuitFirst);
+  if (!top) return hint((t) => t.hints.nothingToMatch);
+
+  const effect = effectOf(view.rules, card.rank);
+  if (view.pendingDraw > 0) {
+    if (playable) return hint((t) => t.hints.stacks(view.pendingDraw + 2));
+    return hint((t) => t.hints.drawTwoWaiting(view.pendingDraw, view.rules.stackDrawTwo));
+  }
+  if (effect === 'wild') return hint((t) => t.hints.wild(card.rank === JOKER ? null : card.rank));
+  const suit = view.currentSuit!;
+  if (card.suit === suit) return hint((t) => t.hints.matchesSuit(t.suit[suit]));
+  if (card.rank === top.rank) return hint((t) => t.hints.matchesRank(top.rank));
+  return hint((t) => t.hints.needs(t.suit[suit], top.rank));
+};
+
+/** The suit to name for a wild card: the one the viewer holds most of, as the AI would pick. */
+export const suggestSuit = (view: PlayerView): SuitHint => {
+  const suit = strongestSuit(view);
+  const held = view.hand.filter((card) => card.suit === suit && !isWildIn(view, card)).length;
+  return {
+    suit,
+    reason: held > 0 ? (t) => t.hints.suitHeld(held, t.suit[suit]) : (t) => t.hints.suitNoPlain(t.suit[suit]),
+  };
+};
+
+const whyPlay = (view: PlayerView, card: Card): Note => {
+  if (isWildIn(view, card)) return (t) => t.hints.playWild(t.card(card));
+  if (view.pendingDraw > 0) return (t) => t.hints.stack(t.card(card));
+  const followUps = view.hand.filter((c) => c.id !== card.id && (c.suit === card.suit || c.rank === card.rank)).length;
+  const savesWild = view.hand.some((c) => isWildIn(view, c));
+  return (t) => t.hints.play(t.card(card), followUps, savesWild);
+};
+
+const whyDraw = (view: PlayerView): Note => {
+  const plays = view.legal.some((a) => a.type === 'play');
+  if (view.pendingDraw > 0) return (t) => t.hints.takePenalty(view.pendingDraw, plays);
+  if (plays && view.hand.length === 1) return (t) => t.hints.drawLastCard;
+  return (t) => t.hints.drawNothingFits;
+};
+
+const whyPass = (view: PlayerView): Note => {
+  if (view.legal.some((a) => a.type === 'play')) return (t) => t.hints.keepDrawn;
+  return view.hasDrawn ? (t) => t.hints.drawnMisfit : (t) => t.hints.nothingLeft;
+};
+
+/**
+ * Recommends a move with the default AI's own evaluation and says why. Null
+ * when it is not the viewer's turn.
+ */
+export const recommendMove = (view: PlayerView): MoveHint | null => {
+  if (view.legal.length === 0) return null;
+  const action = AI_STRATEGIES[DEFAULT_AI_LEVEL].chooseAction(view, Math.random);
+  switch (action.type) {
+    case 'chooseSuit': {
+      const why = suggestSuit(view).reason;
+      return { action, reason: (t) => t.hints.chooseSuit(t.suit[action.suit], why(t)) };
+    }
+    case 'play':
+      return { action, reason: whyPlay(view, cardOf(view, action)!) };
+    case 'draw':
+      return { action, reason: whyDraw(view) };
+    case 'pass':
+      return { action, reason: whyPass(view) };
+  }
+};
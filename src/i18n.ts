@@ -0,0 +1,323 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createContext, useContext } from 'react';
+import { Card, Suit } from './types';
+import { AiLevel, SeatKind } from './engine';
+import { DrawPolicy, RankEffect } from './rules';
+import { PlayerEvent } from './view';
+import { TutorialStepId } from './tutorial';
+import { DailyOutcome } from './daily';
+import { DiscardReason } from './resume';
+import { en } from './locales/en';
+import { es } from './locales/es';
+
+export type Locale = 'en' | 'es';
+
+type SeatName = (seat: number) => string;
+
+/**
+ * Everything the game table says, in one language. Phrases that take values
+ * are functions, so each language owns its word order and plurals; the game
+ * itself only ever deals in typed events.
+ */
+export interface Catalog {
+  /** The language's own name, for the picker. */
+  language: string;
+  /** The picker's label for screen readers. */
+  chooseLanguage: string;
+  suit: Record<Suit, string>;
+  card: (card: Card) => string;
+  /** One line for the move log, replay viewer and review; a face-down draw has no card. */
+  event: (event: PlayerEvent, name: SeatName) => string;
+  /** Footer sentences, written as the moves happen. */
+  footer: {
+    welcome: string;
+    firstTurn: (name: string) => string;
+    toPlay: (name: string) => string;
+    resumed: string;
+    undone: (name: string) => string;
+    matchStart: (target: number, name: string) => string;
+    handStart: (hand: number, name: string) => string;
+    played: (name: string, card: string) => string;
+    wildPlayed: (name: string, rank: string, suit: string) => string;
+    drewHidden: (name: string, count: number) => string;
+    drew: (name: string, cards: string[]) => string;
+    mustDraw: (name: string, count: number) => string;
+    reversed: (direction: 1 | -1) => string;
+    reshuffled: string;
+    skipped: (name: string) => string;
+    stuck: (name: string) => string;
+    firstOut: (name: string, loses: boolean) => string;
+    alsoOut: (name: string) => string;
+    deadlock: (tally: string) => string;
+    lastHolding: (name: string) => string;
+    clearedFirst: (name: string) => string;
+    loser: (name: string) => string;
+    winner: (name: string) => string;
+    tie: string;
+    thinking: (name: string) => string;
+    matchTotals: (hand: number, totals: string, target: number) => string;
+    matchTotalsTitle: (target: number) => string;
+  };
+  table: {
+    firstToEmpty: (loses: boolean) => string;
+    undo: string;
+    showHints: string;
+    hideHints: string;
+    moveLog: string;
+    leaderboard: string;
+    exportReplay: string;
+    exportAfterGame: string;
+    restart: string;
+    leaveRoom: string;
+    offline: (name: string) => string;
+    drawPile: (action: 'pass' | 'draw', count: number, deck: number) => string;
+    discardPile: (card: string | null, suitToFollow: string | null) => string;
+    hand: (name: string, own: boolean, count: number) => string;
+    handLabel: (name: string, count: number) => string;
+    handHelp: string;
+    cardLabel: (card: string, playable: boolean, suggested: boolean) => string;
+    pass: string;
+    passTitle: (allowed: boolean) => string;
+    drawnOf: (drawn: number, limit: number) => string;
+    seatLabel: (name: string, count: number, out: boolean, onTurn: boolean) => string;
+  };
+  suitPicker: {
+    title: (rank: string | null) => string;
+    prompt: (joker: boolean) => string;
+    suggested: string;
+    /** Names the seat picking when several players share the screen. */
+    forSeat: (name: string) => string;
+  };
+  gameOver: {
+    handOver: (hand: number) => string;
+    matchWon: string;
+    matchShared: string;
+    matchLost: string;
+    victory: string;
+    stalemate: string;
+    survived: string;
+    defeat: string;
+    matchResult: (names: string[], points: number, hands: number) => string;
+    nextHand: string;
+    newMatch: string;
+    playAgain: string;
+    reviewGame: string;
+    takeBack: string;
+    /** Titles for a shared screen, where there is no single "you". */
+    seatLoses: (name: string) => string;
+    seatWins: (name: string) => string;
+    matchOver: string;
+  };
+  daily: {
+    title: string;
+    play: string;
+    result: (outcome: DailyOutcome, turns: number) => string;
+    streak: (days: number) => string;
+    copy: string;
+    copied: string;
+    /** Shown over the summary when the clipboard is out of reach, as on a plain-http origin. */
+    copyByHand: string;
+    tomorrow: string;
+    /** The shareable text: the date, the result and the streak, never the cards. */
+    summary: (day: string, result: string, streak: number) => string;
+  };
+  speed: {
+    label: string;
+    delay: (ms: number) => string;
+  };
+  /** Watching a table of AI seats play with every hand face up. */
+  autoplay: {
+    title: string;
+    seed: (seed: number) => string;
+    play: string;
+    pause: string;
+    step: string;
+    newGame: string;
+  };
+  /** The screen that hides a hand while the device changes hands. */
+  hotSeat: {
+    passTo: (name: string) => string;
+    aiTurn: (name: string) => string;
+    reveal: string;
+  };
+  /** Hint mode: why a card can or cannot be played, and the reason behind the suggested move. */
+  hints: {
+    hint: string;
+    canPlay: (playable: boolean) => string;
+    lastCard: string;
+    lowHand: (left: number, instead: 'draw' | 'pass' | null) => string;
+    notYourTurn: string;
+    chooseSuitFirst: string;
+    nothingToMatch: string;
+    stacks: (total: number) => string;
+    drawTwoWaiting: (count: number, stackable: boolean) => string;
+    /** `rank` is null for a Joker. */
+    wild: (rank: string | null) => string;
+    matchesSuit: (suit: string) => string;
+    matchesRank: (rank: string) => string;
+    needs: (suit: string, rank: string) => string;
+    suitHeld: (count: number, suit: string) => string;
+    suitNoPlain: (suit: string) => string;
+    chooseSuit: (suit: string, why: string) => string;
+    playWild: (card: string) => string;
+    stack: (card: string) => string;
+    play: (card: string, followUps: number, savesWild: boolean) => string;
+    takePenalty: (count: number, couldPlay: boolean) => string;
+    drawLastCard: string;
+    drawNothingFits: string;
+    keepDrawn: string;
+    drawnMisfit: string;
+    nothingLeft: string;
+  };
+  start: {
+    /** The tagline, split around its emphasised word. */
+    tagline: { before: string; emphasis: string; after: string };
+    resume: string;
+    resumeDetails: (practice: boolean, seats: string[], hand: number, savedAt: string) => string;
+    discarded: Record<DiscardReason, string>;
+    practice: string;
+    play: string;
+    watchReplay: string;
+  };
+  tableSetup: {
+    title: (seats: number) => string;
+    removeSeat: string;
+    addSeat: string;
+    seatKind: (kind: SeatKind) => string;
+    /** Default name for the `n`th seat of a kind. */
+    seatName: (kind: SeatKind, n: number) => string;
+    playToLast: string;
+    needHuman: string;
+  };
+  aiLevels: Record<AiLevel, { label: string; description: string }>;
+  rulesSetup: {
+    title: string;
+    classic: string;
+    actionCards: string;
+    plain: string;
+    effects: Record<RankEffect, string>;
+    drawPolicies: Record<DrawPolicy, string>;
+    stackDrawTwo: string;
+    decks: string;
+    jokers: string;
+    handSize: string;
+    drawPolicy: string;
+    drawLimit: string;
+    emptyHand: string;
+    loses: string;
+    wins: string;
+  };
+  matchSetup: {
+    /** `target` is null while match play is off. */
+    title: (target: number | null) => string;
+    enable: string;
+    targetScore: string;
+    outPenalty: string;
+    points: string;
+  };
+  scoreboard: {
+    player: string;
+    hand: (hand: number) => string;
+    total: string;
+    includesPenalty: (points: number) => string;
+    footnote: (target: number, penalty: number) => string;
+  };
+  stats: {
+    back: string;
+    empty: string;
+    rank: string;
+    player: string;
+    wins: string;
+    losses: string;
+    games: string;
+    winRate: string;
+    record: (wins: number, losses: number, games: number, rate: string) => string;
+    vsAi: string;
+    vsAiRecord: (wins: number, losses: number, games: number, rate: string) => string;
+    noAiGames: string;
+    recent: string;
+    online: string;
+    moves: (count: number, deadlock: boolean) => string;
+  };
+  /** An online room's waiting room. */
+  lobby: {
+    roomCode: string;
+    reconnecting: string;
+    waitingForPlayer: string;
+    you: string;
+    start: (openSeats: number) => string;
+    waitingForHost: string;
+    leave: string;
+  };
+  online: {
+    title: string;
+    name: string;
+    code: string;
+    createTitle: string;
+    create: string;
+    join: string;
+    rejoin: (code: string) => string;
+  };
+  log: {
+    title: string;
+    empty: string;
+    undone: string;
+    export: string;
+    close: string;
+  };
+  review: {
+    title: string;
+    notApplicable: string;
+    clean: (name: string) => string;
+    flagged: (count: number, name: string) => string;
+    couldHave: (left: number, instead: 'draw' | 'pass') => string;
+  };
+  replay: {
+    title: string;
+    seed: (seed: number) => string;
+    close: string;
+    first: string;
+    back: string;
+    forward: string;
+    last: string;
+    deck: (cards: number) => string;
+    initialDeal: string;
+  };
+  /** The scripted lessons; the card names in them follow the fixed deal. */
+  tutorial: {
+    title: string;
+    learner: string;
+    tutor: string;
+    progress: (step: number, total: number) => string;
+    next: string;
+    finish: string;
+    wrongMove: string;
+    steps: Record<TutorialStepId, { title: string; text: string }>;
+  };
+}
+
+export const CATALOGS: Record<Locale, Catalog> = { en, es };
+
+export const LOCALES = Object.keys(CATALOGS) as Locale[];
+
+const LOCALE_KEY = 'crazy-ace-locale';
+
+const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+/** The saved choice, else the browser's language if there is a catalog for it, else English. */
+export const loadLocale = (): Locale => {
+  const saved = localStorage.getItem(LOCALE_KEY);
+  if (isLocale(saved)) return saved;
+  const browser = navigator.language.slice(0, 2);
+  return isLocale(browser) ? browser : 'en';
+};
+
+export const saveLocale = (locale: Locale) => localStorage.setItem(LOCALE_KEY, locale);
+
+export const CatalogContext = createContext<Catalog>(en);
+
+export const useCatalog = () => useContext(CatalogContext);
@@ -0,0 +1,356 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Catalog } from '../i18n';
+
+const cards = (count: number) => `${count} card${count === 1 ? '' : 's'}`;
+
+const direction = (dir: 1 | -1) => (dir === 1 ? 'clockwise' : 'counter-clockwise');
+
+const aRank = (rank: string) => `${rank === 'A' || rank === '8' ? 'an' : 'a'} ${rank}`;
+
+export const en: Catalog = {
+  language: 'English',
+  chooseLanguage: 'Language',
+  suit: { hearts: 'hearts', diamonds: 'diamonds', clubs: 'clubs', spades: 'spades' },
+  card: (card) => (card.suit ? `${card.rank} of ${card.suit}` : 'Joker'),
+  event: (event, name) => {
+    switch (event.type) {
+      case 'cardPlayed':
+        return `${name(event.seat)} played ${en.card(event.card)}`;
+      case 'suitChanged':
+        return `${name(event.seat)} changed suit to ${event.suit}`;
+      case 'cardDrawn':
+        return event.card ? `${name(event.seat)} drew ${en.card(event.card)}` : `${name(event.seat)} drew a card`;
+      case 'deckReshuffled':
+        return `Discard pile reshuffled into a new deck of ${event.cards}`;
+      case 'drawPenalty':
+        return `${name(event.seat)} must draw ${event.cards}`;
+      case 'directionChanged':
+        return `Play reversed to ${direction(event.direction)}`;
+      case 'turnSkipped':
+        if (event.reason === 'skipped') return `${name(event.seat)} was skipped`;
+        return `${name(event.seat)} passed${event.reason === 'noCards' ? ' (deck empty)' : ''}`;
+      case 'seatOut':
+        return `${name(event.seat)} went out`;
+      case 'gameOver': {
+        const parts = [event.reason === 'deadlock' ? 'Deadlock' : 'Game over'];
+        if (event.loser !== null) parts.push(`${name(event.loser)} lost`);
+        if (event.winner !== null) parts.push(`${name(event.winner)} won`);
+        if (event.loser === null && event.winner === null) parts.push('tied hands');
+        return parts.join(': ');
+      }
+    }
+  },
+  footer: {
+    welcome: 'Welcome to Crazy Ace!',
+    firstTurn: (name) => `Match the suit or rank. ${name} goes first.`,
+    toPlay: (name) => `Match the suit or rank. ${name} to play.`,
+    resumed: 'Game resumed.',
+    undone: (name) => `Move taken back. ${name} to play.`,
+    matchStart: (target, name) => `Hand 1 of a match to ${target}. ${name} goes first.`,
+    handStart: (hand, name) => `Hand ${hand}. ${name} goes first.`,
+    played: (name, card) => `${name} played ${card}.`,
+    wildPlayed: (name, rank, suit) => `${name} played a wild ${rank} and changed suit to ${suit}!`,
+    drewHidden: (name, count) => (count === 1 ? `${name} drew a card.` : `${name} drew ${count} cards.`),
+    drew: (name, drawn) => `${name} drew ${drawn.length === 1 ? 'a ' : ''}${drawn.join(', ')}.`,
+    mustDraw: (name, count) => `${name} must draw ${count}!`,
+    reversed: (dir) => `Play reverses to ${direction(dir)}!`,
+    reshuffled: 'Deck reshuffled from the discard pile.',
+    skipped: (name) => `${name} is skipped!`,
+    stuck: (name) => `${name} can't move and no cards are left to draw. Skipping.`,
+    firstOut: (name, loses) => `${name} cleared their hand first and ${loses ? 'LOSES' : 'WINS'}! Play continues.`,
+    alsoOut: (name) => `${name} is out of cards too.`,
+    deadlock: (tally) => `Deadlock! No cards left and nobody can move (${tally}).`,
+    lastHolding: (name) => `${name} is the last one holding cards.`,
+    clearedFirst: (name) => `${name} cleared their hand first.`,
+    loser: (name) => `Loser: ${name}.`,
+    winner: (name) => `Winner: ${name}!`,
+    tie: "It's a tie!",
+    thinking: (name) => `${name} is calculating its next move...`,
+    matchTotals: (hand, totals, target) => `Hand ${hand} · ${totals} / ${target}`,
+    matchTotalsTitle: (target) => `Penalty points; the match ends at ${target}`,
+  },
+  table: {
+    firstToEmpty: (loses) => `First to empty hand ${loses ? 'loses' : 'wins'}`,
+    undo: 'Undo (practice game)',
+    showHints: 'Show Hints',
+    hideHints: 'Hide Hints',
+    moveLog: 'Move Log',
+    leaderboard: 'Leaderboard',
+    exportReplay: 'Export Replay',
+    exportAfterGame: 'Replays can be exported once the game is over',
+    restart: 'Restart Game',
+    leaveRoom: 'Leave Room',
+    offline: (name) => `${name} (offline)`,
+    drawPile: (action, count, deck) =>
+      `${action === 'pass' ? 'Pass' : count > 0 ? `Draw ${count} cards` : 'Draw a card'} (D). ${deck} cards in the deck.`,
+    discardPile: (card, suitToFollow) =>
+      card ? `Discard pile: ${card}${suitToFollow ? `, suit to follow is ${suitToFollow}` : ''}` : 'Discard pile is empty',
+    hand: (name, own, count) => `${own ? 'Your Hand' : `${name}'s Hand`} (${count})`,
+    handLabel: (name, count) => `${name}'s hand, ${cards(count)}`,
+    handHelp: 'Use the arrow keys to choose a card and Enter to play it. Press D to draw and P to pass.',
+    cardLabel: (card, playable, suggested) => `${card}, ${playable ? 'playable' : 'not playable'}${suggested ? ', suggested' : ''}`,
+    pass: 'Pass',
+    passTitle: (allowed) => (allowed ? 'End your turn' : 'Draw before passing'),
+    drawnOf: (drawn, limit) => `Drawn ${drawn} of ${limit} this turn`,
+    seatLabel: (name, count, out, onTurn) => `${name}: ${cards(count)}${out ? ', out' : ''}${onTurn ? ', on turn' : ''}`,
+  },
+  suitPicker: {
+    title: (rank) => (rank === 'A' ? 'Wild Ace!' : rank ? `Wild ${rank}!` : 'Wild Card!'),
+    prompt: (joker) => (joker ? 'A Joker has no suit of its own. Choose the suit to play next' : 'Choose the next suit to play'),
+    suggested: 'Suggested',
+    forSeat: (name) => `${name} picks`,
+  },
+  gameOver: {
+    handOver: (hand) => `Hand ${hand} Over`,
+    matchWon: 'Match Won!',
+    matchShared: 'Match Shared!',
+    matchLost: 'Match Lost!',
+    victory: 'Victory!',
+    stalemate: 'Stalemate!',
+    survived: 'Survived!',
+    defeat: 'Defeat!',
+    matchResult: (names, points, hands) =>
+      `${names.join(' and ')} ${names.length === 1 ? 'takes' : 'share'} the match with ${points} points after ${hands} hands.`,
+    nextHand: 'Next Hand',
+    newMatch: 'New Match',
+    playAgain: 'Play Again',
+    reviewGame: 'Review Game',
+    takeBack: 'Take Back Last Turn',
+    seatLoses: (name) => `${name} Loses!`,
+    seatWins: (name) => `${name} Wins!`,
+    matchOver: 'Match Over!',
+  },
+  daily: {
+    title: 'Daily Challenge',
+    play: "Play today's deal",
+    result: (outcome, turns) =>
+      ({ won: `Won in ${turns} turns`, survived: `Survived ${turns} turns`, tied: `Tied after ${turns} turns`, lost: `Lost on turn ${turns}` })[outcome],
+    streak: (days) => `${days}-day streak`,
+    copy: 'Copy Result',
+    copied: 'Copied!',
+    copyByHand: 'Copying is blocked here; select the text below and copy it yourself.',
+    tomorrow: 'A new deal comes at midnight UTC.',
+    summary: (day, result, streak) => `Crazy Ace daily ${day}\n${result}\n🔥 ${streak}-day streak`,
+  },
+  speed: {
+    label: 'AI speed',
+    delay: (ms) => (ms === 0 ? 'AI moves instantly' : `AI waits ${(ms / 1000).toFixed(1)} s before each turn`),
+  },
+  autoplay: {
+    title: 'AI vs AI',
+    seed: (seed) => `Seed ${seed}`,
+    play: 'Play',
+    pause: 'Pause',
+    step: 'Next Turn',
+    newGame: 'New Deal',
+  },
+  hotSeat: {
+    passTo: (name) => `Pass to ${name}`,
+    aiTurn: (name) => `${name} is playing…`,
+    reveal: 'Tap to reveal your hand',
+  },
+  hints: {
+    hint: 'Hint:',
+    canPlay: (playable) => (playable ? 'can be played.' : 'cannot be played.'),
+    lastCard: 'This is your last card: emptying your hand loses.',
+    lowHand: (left, instead) => `This leaves you ${cards(left)}; with an empty hand losing, keep some in reserve${instead ? ` and ${instead} instead` : ''}.`,
+    notYourTurn: 'Wait for your turn.',
+    chooseSuitFirst: 'Choose a suit for your wild card first.',
+    nothingToMatch: 'There is nothing on the discard pile to match.',
+    stacks: (total) => `Stacks on the draw-two: the next player takes ${total}.`,
+    drawTwoWaiting: (count, stackable) => `A draw-two is waiting: draw ${cards(count)}.${stackable ? ' Only another draw-two can be stacked on it.' : ''}`,
+    wild: (rank) => `Wild: ${rank ? aRank(rank) : 'a Joker'} can always be played, and you choose the next suit.`,
+    matchesSuit: (suit) => `Matches the suit to follow (${suit}).`,
+    matchesRank: (rank) => `Matches the ${rank} on the discard pile.`,
+    needs: (suit, rank) => `Needs ${suit} or ${aRank(rank)}, or a wild card.`,
+    suitHeld: (count, suit) => `You hold ${cards(count)} in ${suit}, the most of any suit, so more of your hand can follow.`,
+    suitNoPlain: (suit) => `You have no plain cards left, so keeping ${suit} changes nothing.`,
+    chooseSuit: (suit, why) => `Choose ${suit}. ${why}`,
+    playWild: (card) => `Nothing else fits, so play ${card} and choose a suit.`,
+    stack: (card) => `Stack ${card} and pass the draw along.`,
+    play: (card, followUps, savesWild) =>
+      `Play ${card}: ${followUps > 0 ? `${cards(followUps)} in your hand can follow it` : 'it is the best fit you have'}.${savesWild ? ' It saves your wild card for when nothing else fits.' : ''}`,
+    takePenalty: (count, couldPlay) =>
+      couldPlay ? `Take the ${cards(count)}: with an empty hand losing, extra cards keep you safe.` : `Nothing can answer the draw-two, so take the ${cards(count)}.`,
+    drawLastCard: 'Draw rather than play your last card: emptying your hand loses.',
+    drawNothingFits: 'Nothing in your hand can be played, so draw.',
+    keepDrawn: 'Keep what you drew: with an empty hand losing, more cards are safer.',
+    drawnMisfit: 'The card you drew does not fit, so pass.',
+    nothingLeft: 'Nothing fits and there is nothing left to draw, so pass.',
+  },
+  start: {
+    tagline: { before: 'A strategic twist on Crazy Eights. Remember: the first to empty their hand ', emphasis: 'LOSES', after: '!' },
+    resume: 'Resume game',
+    resumeDetails: (practice, seats, hand, savedAt) => `${practice ? 'Practice · ' : ''}${seats.join(' vs ')} · ${cards(hand)} in hand · saved ${savedAt}`,
+    discarded: {
+      unreadable: 'Your saved game could not be read and was discarded.',
+      outdated: 'Your saved game is from an older version and was discarded.',
+      damaged: 'Your saved game was damaged and was discarded.',
+      gone: 'That saved game is no longer available and was discarded.',
+    },
+    practice: 'Practice game (undo allowed, not ranked)',
+    play: 'Click to Start',
+    watchReplay: 'Watch a replay',
+  },
+  tableSetup: {
+    title: (seats) => `Table (${seats} seats)`,
+    removeSeat: 'Remove Seat',
+    addSeat: 'Add Seat',
+    seatKind: (kind) => (kind === 'human' ? 'Human seat' : 'AI seat'),
+    seatName: (kind, n) => `${kind === 'ai' ? 'AI' : 'Player'} ${n}`,
+    playToLast: 'Keep playing until one seat is left holding cards',
+    needHuman: 'At least one seat must be human.',
+  },
+  aiLevels: {
+    easy: { label: 'Easy', description: 'Plays any legal move at random.' },
+    normal: { label: 'Normal', description: 'Holds on to its last few cards and saves wild cards for emergencies.' },
+    hard: { label: 'Hard', description: 'Tracks the cards it has seen and simulates hundreds of futures.' },
+    llm: { label: 'Gemini', description: 'Asks Gemini for each move and chats at the table; plays like Normal when offline.' },
+  },
+  rulesSetup: {
+    title: 'House Rules',
+    classic: 'Classic',
+    actionCards: 'Action Cards',
+    plain: 'Plain',
+    effects: { wild: 'Wild', drawTwo: 'Draw two', skip: 'Skip', reverse: 'Reverse' },
+    drawPolicies: { one: 'Draw one', untilPlayable: 'Until playable', upTo: 'Draw up to…' },
+    stackDrawTwo: 'Draw-two cards stack',
+    decks: 'Decks shuffled together',
+    jokers: 'Add two wild Jokers per deck',
+    handSize: 'Starting hand size',
+    drawPolicy: 'Drawing by choice',
+    drawLimit: 'Most cards drawn a turn',
+    emptyHand: 'Emptying your hand first',
+    loses: 'Loses',
+    wins: 'Wins',
+  },
+  matchSetup: {
+    title: (target) => `Match Play${target === null ? '' : ` · to ${target}`}`,
+    enable: 'Play several hands; lowest penalty total wins',
+    targetScore: 'Match ends at',
+    outPenalty: 'Penalty for emptying your hand first',
+    points: 'Points per card left in hand',
+  },
+  scoreboard: {
+    player: 'Player',
+    hand: (hand) => `H${hand}`,
+    total: 'Total',
+    includesPenalty: (points) => `Includes ${points} for going out first`,
+    footnote: (target, penalty) => `First to ${target} ends the match. Red scores include the ${penalty}-point penalty for going out first.`,
+  },
+  stats: {
+    back: 'Back to Leaderboard',
+    empty: 'No finished games yet. Play one and it will show up here.',
+    rank: '#',
+    player: 'Player',
+    wins: 'W',
+    losses: 'L',
+    games: 'Games',
+    winRate: 'Win %',
+    record: (wins, losses, games, rate) => `${wins} won, ${losses} lost in ${games} games (${rate}).`,
+    vsAi: 'Against the AI',
+    vsAiRecord: (wins, losses, games, rate) => `${wins}W ${losses}L / ${games} · ${rate}`,
+    noAiGames: 'No games against the AI yet.',
+    recent: 'Recent games',
+    online: 'online',
+    moves: (count, deadlock) => `${count} moves${deadlock ? ' · deadlock' : ''}`,
+  },
+  lobby: {
+    roomCode: 'Room code',
+    reconnecting: 'Reconnecting...',
+    waitingForPlayer: 'Waiting for a player...',
+    you: '(you)',
+    start: (open) => `Start${open > 0 ? ` (${open} open seat${open === 1 ? '' : 's'} go to the AI)` : ''}`,
+    waitingForHost: 'Waiting for the host to start...',
+    leave: 'Leave',
+  },
+  online: {
+    title: 'Play Online',
+    name: 'Your name',
+    code: 'CODE',
+    createTitle: 'Open a room for the table above; other human seats wait for players to join',
+    create: 'Create Room',
+    join: 'Join',
+    rejoin: (code) => `Rejoin room ${code}`,
+  },
+  log: {
+    title: 'Move Log',
+    empty: 'No moves yet.',
+    undone: 'Move taken back',
+    export: 'Download the log as JSON',
+    close: 'Close',
+  },
+  review: {
+    title: 'Game Review',
+    notApplicable: 'Emptying your hand wins under these rules, so no play is flagged.',
+    clean: (name) => `${name} never ran their hand down while holding back was allowed.`,
+    flagged: (count, name) => `${count} ${count === 1 ? 'play' : 'plays'} by ${name} emptied their hand faster than necessary.`,
+    couldHave: (left, instead) => `Left ${cards(left)}; could have ${instead === 'draw' ? 'drawn' : 'passed'} instead.`,
+  },
+  replay: {
+    title: 'Replay',
+    seed: (seed) => `Seed ${seed}`,
+    close: 'Close Replay',
+    first: 'First Move',
+    back: 'Step Back',
+    forward: 'Step Forward',
+    last: 'Last Move',
+    deck: (count) => `Deck: ${count}`,
+    initialDeal: 'Initial deal',
+  },
+  tutorial: {
+    title: 'How to Play',
+    learner: 'You',
+    tutor: 'Tutor',
+    progress: (step, total) => `Step ${step} of ${total}`,
+    next: 'Next',
+    finish: 'Finish',
+    wrongMove: 'Not this time. Try the highlighted move.',
+    steps: {
+      welcome: {
+        title: 'Welcome to Crazy Ace',
+        text: "On your turn you play one card onto the discard pile, or draw from the deck. The twist: the first player to empty their hand LOSES. Let's play a short game against the Tutor.",
+      },
+      matchSuit: {
+        title: 'Match the suit',
+        text: 'The 7 of hearts is face up. Any card of the same suit can go on it, so play your 3 of hearts.',
+      },
+      matchRank: {
+        title: 'Match the rank',
+        text: 'The Tutor answered with the 9 of hearts. You have no hearts left, but the same rank works too: play your 9 of clubs. Clubs become the suit to follow.',
+      },
+      draw: {
+        title: 'Draw when nothing fits',
+        text: 'The Tutor played the 6 of clubs. Neither of your cards is a club or a 6, so draw a card from the deck.',
+      },
+      wildAce: {
+        title: 'Play the wild Ace',
+        text: 'You drew the Ace of spades. Aces are wild: they can go on any card. Play it.',
+      },
+      pickSuit: {
+        title: 'Pick the suit',
+        text: 'Whoever plays a wild Ace names the next suit. Both of your cards are diamonds, so choose diamonds.',
+      },
+      followSuit: {
+        title: 'Follow your suit',
+        text: "The Tutor had no diamonds, drew a card and couldn't play it. Play your King of diamonds.",
+      },
+      holdBack: {
+        title: "Don't go out!",
+        text: 'Your 4 of diamonds would fit, but it is your last card, and emptying your hand first loses the game. Draw instead to keep cards in hand.',
+      },
+      pass: {
+        title: 'Then pass',
+        text: "Once you've drawn you may end your turn without playing. Pass, and you're still in the game with two cards.",
+      },
+      done: {
+        title: "You're ready",
+        text: 'Match the suit or the rank, play wild Aces to change the suit, draw when stuck, and never be the first to run out of cards.',
+      },
+    },
+  },
+};
@@ -0,0 +1,361 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Catalog } from '../i18n';
+import { Suit } from '../types';
+
+const SUITS: Record<Suit, string> = { hearts: 'corazones', diamonds: 'diamantes', clubs: 'tréboles', spades: 'picas' };
+
+const cards = (count: number) => `${count} carta${count === 1 ? '' : 's'}`;
+
+const direction = (dir: 1 | -1) => (dir === 1 ? 'sentido horario' : 'sentido antihorario');
+
+export const es: Catalog = {
+  language: 'Español',
+  chooseLanguage: 'Idioma',
+  suit: SUITS,
+  card: (card) => (card.suit ? `${card.rank} de ${SUITS[card.suit]}` : 'Comodín'),
+  event: (event, name) => {
+    switch (event.type) {
+      case 'cardPlayed':
+        return `${name(event.seat)} jugó ${es.card(event.card)}`;
+      case 'suitChanged':
+        return `${name(event.seat)} cambió el palo a ${SUITS[event.suit]}`;
+      case 'cardDrawn':
+        return event.card ? `${name(event.seat)} robó ${es.card(event.card)}` : `${name(event.seat)} robó una carta`;
+      case 'deckReshuffled':
+        return `El descarte se barajó en un mazo nuevo de ${event.cards}`;
+      case 'drawPenalty':
+        return `${name(event.seat)} debe robar ${event.cards}`;
+      case 'directionChanged':
+        return `El juego cambia al ${direction(event.direction)}`;
+      case 'turnSkipped':
+        if (event.reason === 'skipped') return `${name(event.seat)} pierde el turno`;
+        return `${name(event.seat)} pasó${event.reason === 'noCards' ? ' (mazo vacío)' : ''}`;
+      case 'seatOut':
+        return `${name(event.seat)} se quedó sin cartas`;
+      case 'gameOver': {
+        const parts = [event.reason === 'deadlock' ? 'Bloqueo' : 'Fin de la partida'];
+        if (event.loser !== null) parts.push(`${name(event.loser)} perdió`);
+        if (event.winner !== null) parts.push(`${name(event.winner)} ganó`);
+        if (event.loser === null && event.winner === null) parts.push('manos empatadas');
+        return parts.join(': ');
+      }
+    }
+  },
+  footer: {
+    welcome: '¡Bienvenido a Crazy Ace!',
+    firstTurn: (name) => `Sigue el palo o el número. Empieza ${name}.`,
+    toPlay: (name) => `Sigue el palo o el número. Le toca a ${name}.`,
+    resumed: 'Partida reanudada.',
+    undone: (name) => `Jugada deshecha. Le toca a ${name}.`,
+    matchStart: (target, name) => `Mano 1 de un match a ${target}. Empieza ${name}.`,
+    handStart: (hand, name) => `Mano ${hand}. Empieza ${name}.`,
+    played: (name, card) => `${name} jugó ${card}.`,
+    wildPlayed: (name, rank, suit) => `¡${name} jugó ${rank === 'Joker' ? 'un Comodín' : `un ${rank} comodín`} y cambió el palo a ${suit}!`,
+    drewHidden: (name, count) => (count === 1 ? `${name} robó una carta.` : `${name} robó ${count} cartas.`),
+    drew: (name, drawn) => `${name} robó ${drawn.join(', ')}.`,
+    mustDraw: (name, count) => `¡${name} debe robar ${count}!`,
+    reversed: (dir) => `¡El juego cambia al ${direction(dir)}!`,
+    reshuffled: 'El descarte se barajó como mazo nuevo.',
+    skipped: (name) => `¡${name} pierde el turno!`,
+    stuck: (name) => `${name} no puede jugar y no quedan cartas para robar. Pasa.`,
+    firstOut: (name, loses) => `¡${name} vació su mano primero y ${loses ? 'PIERDE' : 'GANA'}! El juego sigue.`,
+    alsoOut: (name) => `${name} también se quedó sin cartas.`,
+    deadlock: (tally) => `¡Bloqueo! No quedan cartas y nadie puede jugar (${tally}).`,
+    lastHolding: (name) => `${name} es el último con cartas en la mano.`,
+    clearedFirst: (name) => `${name} vació su mano primero.`,
+    loser: (name) => `Pierde: ${name}.`,
+    winner: (name) => `¡Gana: ${name}!`,
+    tie: '¡Empate!',
+    thinking: (name) => `${name} está pensando su próxima jugada...`,
+    matchTotals: (hand, totals, target) => `Mano ${hand} · ${totals} / ${target}`,
+    matchTotalsTitle: (target) => `Puntos de penalización; el match termina en ${target}`,
+  },
+  table: {
+    firstToEmpty: (loses) => `Quien vacía su mano primero ${loses ? 'pierde' : 'gana'}`,
+    undo: 'Deshacer (partida de práctica)',
+    showHints: 'Mostrar pistas',
+    hideHints: 'Ocultar pistas',
+    moveLog: 'Registro de jugadas',
+    leaderboard: 'Clasificación',
+    exportReplay: 'Exportar repetición',
+    exportAfterGame: 'La repetición se puede exportar al terminar la partida',
+    restart: 'Reiniciar partida',
+    leaveRoom: 'Salir de la sala',
+    offline: (name) => `${name} (desconectado)`,
+    drawPile: (action, count, deck) =>
+      `${action === 'pass' ? 'Pasar' : count > 0 ? `Robar ${count} cartas` : 'Robar una carta'} (D). ${cards(deck)} en el mazo.`,
+    discardPile: (card, suitToFollow) =>
+      card ? `Descarte: ${card}${suitToFollow ? `, el palo a seguir es ${suitToFollow}` : ''}` : 'El descarte está vacío',
+    hand: (name, own, count) => `${own ? 'Tu mano' : `Mano de ${name}`} (${count})`,
+    handLabel: (name, count) => `Mano de ${name}, ${cards(count)}`,
+    handHelp: 'Usa las flechas para elegir una carta y Enter para jugarla. Pulsa D para robar y P para pasar.',
+    cardLabel: (card, playable, suggested) => `${card}, ${playable ? 'se puede jugar' : 'no se puede jugar'}${suggested ? ', sugerida' : ''}`,
+    pass: 'Pasar',
+    passTitle: (allowed) => (allowed ? 'Terminar tu turno' : 'Roba antes de pasar'),
+    drawnOf: (drawn, limit) => `Has robado ${drawn} de ${limit} este turno`,
+    seatLabel: (name, count, out, onTurn) => `${name}: ${cards(count)}${out ? ', fuera' : ''}${onTurn ? ', en turno' : ''}`,
+  },
+  suitPicker: {
+    title: (rank) => (rank === 'A' ? '¡As comodín!' : rank ? `¡${rank} comodín!` : '¡Comodín!'),
+    prompt: (joker) => (joker ? 'El Comodín no tiene palo propio. Elige el palo que se jugará' : 'Elige el próximo palo'),
+    suggested: 'Sugerido',
+    forSeat: (name) => `Elige ${name}`,
+  },
+  gameOver: {
+    handOver: (hand) => `Fin de la mano ${hand}`,
+    matchWon: '¡Match ganado!',
+    matchShared: '¡Match compartido!',
+    matchLost: '¡Match perdido!',
+    victory: '¡Victoria!',
+    stalemate: '¡Empate!',
+    survived: '¡Sobreviviste!',
+    defeat: '¡Derrota!',
+    matchResult: (names, points, hands) =>
+      `${names.join(' y ')} ${names.length === 1 ? 'gana' : 'comparten'} el match con ${points} puntos tras ${hands} manos.`,
+    nextHand: 'Siguiente mano',
+    newMatch: 'Nuevo match',
+    playAgain: 'Jugar otra vez',
+    reviewGame: 'Revisar partida',
+    takeBack: 'Deshacer el último turno',
+    seatLoses: (name) => `¡${name} pierde!`,
+    seatWins: (name) => `¡${name} gana!`,
+    matchOver: '¡Fin del match!',
+  },
+  daily: {
+    title: 'Reto diario',
+    play: 'Jugar el reparto de hoy',
+    result: (outcome, turns) =>
+      ({ won: `Ganado en ${turns} turnos`, survived: `Sobrevivió ${turns} turnos`, tied: `Empate tras ${turns} turnos`, lost: `Perdido en el turno ${turns}` })[outcome],
+    streak: (days) => `Racha de ${days} ${days === 1 ? 'día' : 'días'}`,
+    copy: 'Copiar resultado',
+    copied: '¡Copiado!',
+    copyByHand: 'Aquí no se puede copiar; selecciona el texto de abajo y cópialo tú.',
+    tomorrow: 'Hay un reparto nuevo a medianoche UTC.',
+    summary: (day, result, streak) => `Reto diario de Crazy Ace ${day}\n${result}\n🔥 Racha de ${streak} ${streak === 1 ? 'día' : 'días'}`,
+  },
+  speed: {
+    label: 'Velocidad de la IA',
+    delay: (ms) => (ms === 0 ? 'La IA juega al instante' : `La IA espera ${(ms / 1000).toFixed(1).replace('.', ',')} s antes de cada turno`),
+  },
+  autoplay: {
+    title: 'IA contra IA',
+    seed: (seed) => `Semilla ${seed}`,
+    play: 'Reproducir',
+    pause: 'Pausa',
+    step: 'Siguiente turno',
+    newGame: 'Nuevo reparto',
+  },
+  hotSeat: {
+    passTo: (name) => `Pasa el dispositivo a ${name}`,
+    aiTurn: (name) => `${name} está jugando…`,
+    reveal: 'Toca para ver tu mano',
+  },
+  hints: {
+    hint: 'Pista:',
+    canPlay: (playable) => (playable ? 'se puede jugar.' : 'no se puede jugar.'),
+    lastCard: 'Es tu última carta: vaciar la mano pierde.',
+    lowHand: (left, instead) =>
+      `Te quedarían ${cards(left)}; como vaciar la mano pierde, guarda algunas${instead ? ` y ${instead === 'draw' ? 'roba' : 'pasa'} en su lugar` : ''}.`,
+    notYourTurn: 'Espera tu turno.',
+    chooseSuitFirst: 'Primero elige un palo para tu comodín.',
+    nothingToMatch: 'No hay nada en el descarte con que coincidir.',
+    stacks: (total) => `Se acumula sobre el roba dos: el siguiente jugador roba ${total}.`,
+    drawTwoWaiting: (count, stackable) => `Hay un roba dos pendiente: roba ${cards(count)}.${stackable ? ' Solo se le puede acumular otro roba dos.' : ''}`,
+    wild: (rank) => `Comodín: ${rank ? `un ${rank}` : 'el Comodín'} siempre se puede jugar, y eliges el próximo palo.`,
+    matchesSuit: (suit) => `Coincide con el palo a seguir (${suit}).`,
+    matchesRank: (rank) => `Coincide con el ${rank} del descarte.`,
+    needs: (suit, rank) => `Necesita ${suit} o un ${rank}, o un comodín.`,
+    suitHeld: (count, suit) => `Tienes ${cards(count)} de ${suit}, más que de ningún otro palo, así que más cartas de tu mano podrán seguir.`,
+    suitNoPlain: (suit) => `No te quedan cartas normales, así que mantener ${suit} no cambia nada.`,
+    chooseSuit: (suit, why) => `Elige ${suit}. ${why}`,
+    playWild: (card) => `Nada más encaja, así que juega ${card} y elige un palo.`,
+    stack: (card) => `Acumula ${card} y pasa el robo al siguiente.`,
+    play: (card, followUps, savesWild) =>
+      `Juega ${card}: ${followUps > 0 ? `${followUps === 1 ? 'puede seguirla 1 carta' : `pueden seguirla ${followUps} cartas`} de tu mano` : 'es lo que mejor encaja'}.${savesWild ? ' Así guardas tu comodín para cuando nada más encaje.' : ''}`,
+    takePenalty: (count, couldPlay) =>
+      couldPlay ? `Roba las ${cards(count)}: como vaciar la mano pierde, las cartas de más te protegen.` : `Nada responde al roba dos, así que roba las ${cards(count)}.`,
+    drawLastCard: 'Roba en vez de jugar tu última carta: vaciar la mano pierde.',
+    drawNothingFits: 'No puedes jugar ninguna carta de tu mano, así que roba.',
+    keepDrawn: 'Quédate con lo que robaste: como vaciar la mano pierde, más cartas es más seguro.',
+    drawnMisfit: 'La carta que robaste no encaja, así que pasa.',
+    nothingLeft: 'Nada encaja y no queda nada que robar, así que pasa.',
+  },
+  start: {
+    tagline: { before: 'Un giro estratégico de los Ochos Locos. Recuerda: quien vacía su mano primero ', emphasis: 'PIERDE', after: '.' },
+    resume: 'Continuar partida',
+    resumeDetails: (practice, seats, hand, savedAt) =>
+      `${practice ? 'Práctica · ' : ''}${seats.join(' contra ')} · ${cards(hand)} en la mano · guardada el ${savedAt}`,
+    discarded: {
+      unreadable: 'No se pudo leer tu partida guardada y se descartó.',
+      outdated: 'Tu partida guardada es de una versión anterior y se descartó.',
+      damaged: 'Tu partida guardada estaba dañada y se descartó.',
+      gone: 'Esa partida guardada ya no está disponible y se descartó.',
+    },
+    practice: 'Partida de práctica (se puede deshacer, no puntúa)',
+    play: 'Haz clic para empezar',
+    watchReplay: 'Ver una repetición',
+  },
+  tableSetup: {
+    title: (seats) => `Mesa (${seats} asientos)`,
+    removeSeat: 'Quitar asiento',
+    addSeat: 'Añadir asiento',
+    seatKind: (kind) => (kind === 'human' ? 'Asiento humano' : 'Asiento de la IA'),
+    seatName: (kind, n) => `${kind === 'ai' ? 'IA' : 'Jugador'} ${n}`,
+    playToLast: 'Seguir jugando hasta que solo un asiento tenga cartas',
+    needHuman: 'Al menos un asiento debe ser humano.',
+  },
+  aiLevels: {
+    easy: { label: 'Fácil', description: 'Juega cualquier jugada legal al azar.' },
+    normal: { label: 'Normal', description: 'Se guarda sus últimas cartas y reserva los comodines para emergencias.' },
+    hard: { label: 'Difícil', description: 'Recuerda las cartas que ha visto y simula cientos de futuros.' },
+    llm: { label: 'Gemini', description: 'Pregunta a Gemini cada jugada y charla en la mesa; juega como Normal sin conexión.' },
+  },
+  rulesSetup: {
+    title: 'Reglas de la casa',
+    classic: 'Clásicas',
+    actionCards: 'Cartas de acción',
+    plain: 'Normal',
+    effects: { wild: 'Comodín', drawTwo: 'Roba dos', skip: 'Salta', reverse: 'Cambio de sentido' },
+    drawPolicies: { one: 'Robar una', untilPlayable: 'Hasta poder jugar', upTo: 'Robar hasta…' },
+    stackDrawTwo: 'Los roba dos se acumulan',
+    decks: 'Barajas mezcladas',
+    jokers: 'Añadir dos comodines por baraja',
+    handSize: 'Cartas al repartir',
+    drawPolicy: 'Robo voluntario',
+    drawLimit: 'Máximo de cartas robadas por turno',
+    emptyHand: 'Vaciar la mano primero',
+    loses: 'Pierde',
+    wins: 'Gana',
+  },
+  matchSetup: {
+    title: (target) => `Match${target === null ? '' : ` · a ${target}`}`,
+    enable: 'Jugar varias manos; gana el menor total de penalización',
+    targetScore: 'El match termina en',
+    outPenalty: 'Penalización por vaciar la mano primero',
+    points: 'Puntos por carta que quede en la mano',
+  },
+  scoreboard: {
+    player: 'Jugador',
+    hand: (hand) => `M${hand}`,
+    total: 'Total',
+    includesPenalty: (points) => `Incluye ${points} por salir primero`,
+    footnote: (target, penalty) =>
+      `El primero en llegar a ${target} termina el match. Las puntuaciones en rojo incluyen la penalización de ${penalty} puntos por salir primero.`,
+  },
+  stats: {
+    back: 'Volver a la clasificación',
+    empty: 'Todavía no hay partidas terminadas. Juega una y aparecerá aquí.',
+    rank: '#',
+    player: 'Jugador',
+    wins: 'G',
+    losses: 'P',
+    games: 'Partidas',
+    winRate: '% victorias',
+    record: (wins, losses, games, rate) => `${wins} ganadas, ${losses} perdidas en ${games} partidas (${rate}).`,
+    vsAi: 'Contra la IA',
+    vsAiRecord: (wins, losses, games, rate) => `${wins}G ${losses}P / ${games} · ${rate}`,
+    noAiGames: 'Todavía no hay partidas contra la IA.',
+    recent: 'Partidas recientes',
+    online: 'en línea',
+    moves: (count, deadlock) => `${count} jugadas${deadlock ? ' · bloqueo' : ''}`,
+  },
+  lobby: {
+    roomCode: 'Código de sala',
+    reconnecting: 'Reconectando...',
+    waitingForPlayer: 'Esperando a un jugador...',
+    you: '(tú)',
+    start: (open) => `Empezar${open > 0 ? ` (${open === 1 ? 'el asiento libre pasa' : `los ${open} asientos libres pasan`} a la IA)` : ''}`,
+    waitingForHost: 'Esperando a que el anfitrión empiece...',
+    leave: 'Salir',
+  },
+  online: {
+    title: 'Jugar en línea',
+    name: 'Tu nombre',
+    code: 'CÓDIGO',
+    createTitle: 'Abre una sala con la mesa de arriba; los demás asientos humanos esperan a que se unan jugadores',
+    create: 'Crear sala',
+    join: 'Unirse',
+    rejoin: (code) => `Volver a la sala ${code}`,
+  },
+  log: {
+    title: 'Registro de jugadas',
+    empty: 'Todavía no hay jugadas.',
+    undone: 'Jugada deshecha',
+    export: 'Descargar el registro como JSON',
+    close: 'Cerrar',
+  },
+  review: {
+    title: 'Revisión de la partida',
+    notApplicable: 'Con estas reglas vaciar la mano gana, así que no se marca ninguna jugada.',
+    clean: (name) => `${name} nunca se quedó corto de cartas cuando podía guardarlas.`,
+    flagged: (count, name) =>
+      `${count} ${count === 1 ? 'jugada' : 'jugadas'} de ${name} ${count === 1 ? 'vació' : 'vaciaron'} la mano más rápido de lo necesario.`,
+    couldHave: (left, instead) => `Quedaron ${cards(left)}; podía haber ${instead === 'draw' ? 'robado' : 'pasado'}.`,
+  },
+  replay: {
+    title: 'Repetición',
+    seed: (seed) => `Semilla ${seed}`,
+    close: 'Cerrar repetición',
+    first: 'Primera jugada',
+    back: 'Paso atrás',
+    forward: 'Paso adelante',
+    last: 'Última jugada',
+    deck: (count) => `Mazo: ${count}`,
+    initialDeal: 'Reparto inicial',
+  },
+  tutorial: {
+    title: 'Cómo se juega',
+    learner: 'Tú',
+    tutor: 'Tutor',
+    progress: (step, total) => `Paso ${step} de ${total}`,
+    next: 'Siguiente',
+    finish: 'Terminar',
+    wrongMove: 'Esta vez no. Prueba la jugada resaltada.',
+    steps: {
+      welcome: {
+        title: 'Bienvenido a Crazy Ace',
+        text: 'En tu turno juegas una carta sobre el descarte o robas del mazo. La trampa: quien vacía su mano primero PIERDE. Juguemos una partida corta contra el Tutor.',
+      },
+      matchSuit: {
+        title: 'Sigue el palo',
+        text: 'Arriba está el 7 de corazones. Cualquier carta del mismo palo vale, así que juega tu 3 de corazones.',
+      },
+      matchRank: {
+        title: 'Sigue el número',
+        text: 'El Tutor respondió con el 9 de corazones. Ya no tienes corazones, pero el mismo número también vale: juega tu 9 de tréboles. Ahora el palo a seguir es tréboles.',
+      },
+      draw: {
+        title: 'Roba si nada encaja',
+        text: 'El Tutor jugó el 6 de tréboles. Ninguna de tus cartas es de tréboles ni un 6, así que roba una carta del mazo.',
+      },
+      wildAce: {
+        title: 'Juega el As comodín',
+        text: 'Robaste el As de picas. Los Ases son comodines: se pueden jugar sobre cualquier carta. Juégalo.',
+      },
+      pickSuit: {
+        title: 'Elige el palo',
+        text: 'Quien juega un As comodín elige el próximo palo. Tus dos cartas son de diamantes, así que elige diamantes.',
+      },
+      followSuit: {
+        title: 'Sigue tu palo',
+        text: 'El Tutor no tenía diamantes, robó una carta y no pudo jugarla. Juega tu K de diamantes.',
+      },
+      holdBack: {
+        title: '¡No te quedes sin cartas!',
+        text: 'Tu 4 de diamantes encajaría, pero es tu última carta, y vaciar la mano primero pierde la partida. Roba en su lugar para seguir con cartas.',
+      },
+      pass: {
+        title: 'Y luego pasa',
+        text: 'Después de robar puedes terminar tu turno sin jugar. Pasa, y sigues en la partida con dos cartas.',
+      },
+      done: {
+        title: 'Ya sabes jugar',
+        text: 'Sigue el palo o el número, juega Ases comodín para cambiar el palo, roba cuando no puedas jugar y nunca seas el primero en quedarte sin cartas.',
+      },
+    },
+  },
+};
@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TABLE, GameState, applyAction } from './engine';
+import { DEFAULT_MATCH, MatchConfig, createMatch, recordHand, scoreHand } from './match';
+import { stackedDeal } from './testing';
+
+/** Seat 0 goes out with the 3 of hearts, leaving seat 1 holding the King of clubs and the Ace of spades. */
+const wentOut = (): GameState => {
+  const start = stackedDeal(['3-hearts-1', 'K-clubs-1', '7-hearts-1', 'A-spades-1'], 1);
+  const { state } = applyAction({ ...start, hands: [start.hands[0], [...start.hands[1], start.deck[0]]] }, { type: 'play', seat: 0, cardId: '3-hearts-1' });
+  return state;
+};
+
+describe('scoreHand', () => {
+  it('counts the cards left and charges the seat that went out', () => {
+    expect(scoreHand(wentOut(), DEFAULT_MATCH)).toEqual({ seed: 1, scores: [25, 30], out: 0 });
+  });
+
+  it('charges no one for going out after a deadlock', () => {
+    const state: GameState = { ...wentOut(), endReason: 'deadlock' };
+    expect(scoreHand(state, DEFAULT_MATCH)).toEqual({ seed: 1, scores: [0, 30], out: null });
+  });
+
+  it('charges the first seat out when playing to the last', () => {
+    const start = stackedDeal(['3-hearts-1', 'K-clubs-1', '7-hearts-1'], 1, {}, { ...DEFAULT_TABLE, playToLast: true });
+    const { state } = applyAction(start, { type: 'play', seat: 0, cardId: '3-hearts-1' });
+    expect(state.out).toEqual([0]);
+    expect(scoreHand(state, DEFAULT_MATCH).out).toBe(0);
+  });
+});
+
+describe('recordHand', () => {
+  it('adds each hand to the running totals', () => {
+    const match = recordHand(recordHand(createMatch(DEFAULT_MATCH, 2), wentOut()), wentOut());
+    expect(match.hands).toHaveLength(2);
+    expect(match.totals).toEqual([50, 60]);
+    expect(match.status).toBe('playing');
+  });
+
+  it('ends the match once a seat reaches the target, the lowest total winning', () => {
+    const match = recordHand({ ...createMatch(DEFAULT_MATCH, 2), totals: [60, 70] }, wentOut());
+    expect(match.totals).toEqual([85, 100]);
+    expect(match.status).toBe('over');
+    expect(match.winners).toEqual([0]);
+  });
+
+  it('shares the win between seats level on the lowest total', () => {
+    const config: MatchConfig = { ...DEFAULT_MATCH, targetScore: 80 };
+    const match = recordHand({ ...createMatch(config, 2), totals: [55, 50] }, wentOut());
+    expect(match.totals).toEqual([80, 80]);
+    expect(match.winners).toEqual([0, 1]);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { JOKER, RANKS, Rank } from './types';
+import { GameState } from './engine';
+
+export const MIN_TARGET_SCORE = 10;
+export const MAX_TARGET_SCORE = 1000;
+export const MAX_CARD_POINTS = 100;
+
+/** How a match of several hands is scored. Points are penalties: the lowest total wins. */
+export interface MatchConfig {
+  /** The match ends after the hand in which any seat reaches this total. */
+  targetScore: number;
+  /** Penalty per card still held when a hand ends. */
+  points: Record<Rank, number>;
+  /** Extra penalty for the seat that empties its hand first. */
+  outPenalty: number;
+}
+
+export const DEFAULT_MATCH: MatchConfig = {
+  targetScore: 100,
+  points: { A: 20, '2': 2, '3': 3, '4': 4, '5': 5, '6': 6, '7': 7, '8': 8, '9': 9, '10': 10, J: 10, Q: 10, K: 10, Joker: 50 },
+  outPenalty: 25,
+};
+
+export interface HandScore {
+  /** Deal seed of the hand, so it can be found again. */
+  seed: number;
+  /** Penalty taken by each seat this hand. */
+  scores: number[];
+  /** Seat that emptied its hand first and took `outPenalty`, if any. */
+  out: number | null;
+}
+
+export interface MatchState {
+  config: MatchConfig;
+  hands: HandScore[];
+  /** Running penalty total per seat. */
+  totals: number[];
+  status: 'playing' | 'over';
+  /** Seats sharing the lowest total once the match is over. */
+  winners: number[];
+}
+
+export const createMatch = (config: MatchConfig, seats: number): MatchState => ({
+  config,
+  hands: [],
+  totals: Array(seats).fill(0),
+  status: 'playing',
+  winners: [],
+});
+
+/** Scores a finished hand: every card left in a hand counts, and going out first costs extra. */
+export const scoreHand = (state: GameState, config: MatchConfig): HandScore => {
+  // Playing to the last records who went out; otherwise it was whoever ended the hand.
+  const out = state.out[0] ?? (state.endReason === 'emptiedHand' ? state.hands.findIndex((hand) => hand.length === 0) : null);
+  const scores = state.hands.map(
+    (hand, seat) => hand.reduce((sum, card) => sum + config.points[card.rank], 0) + (seat === out ? config.outPenalty : 0),
+  );
+  return { seed: state.seed, scores, out };
+};
+
+/** Adds a finished hand to the match and ends it once anyone reaches the target. */
+export const recordHand = (match: MatchState, state: GameState): MatchState => {
+  const hand = scoreHand(state, match.config);
+  const totals = match.totals.map((total, seat) => total + hand.scores[seat]);
+  if (!totals.some((total) => total >= match.config.targetScore)) {
+    return { ...match, hands: [...match.hands, hand], totals };
+  }
+  const best = Math.min(...totals);
+  return {
+    ...match,
+    hands: [...match.hands, hand],
+    totals,
+    status: 'over',
+    winners: totals.flatMap((total, seat) => (total === best ? [seat] : [])),
+  };
+};
+
+const isPoints = (value: number, max: number) => Number.isInteger(value) && value >= 0 && value <= max;
+
+export const isMatchConfig = (value: unknown): value is MatchConfig => {
+  if (!value || typeof value !== 'object') return false;
+  const config = value as Partial<MatchConfig>;
+  return (
+    Number.isInteger(config.targetScore) &&
+    config.targetScore! >= MIN_TARGET_SCORE &&
+    config.targetScore! <= MAX_TARGET_SCORE &&
+    isPoints(config.outPenalty as number, MAX_TARGET_SCORE) &&
+    !!config.points &&
+    typeof config.points === 'object' &&
+    [...RANKS, JOKER].every((rank) => isPoints(config.points![rank], MAX_CARD_POINTS))
+  );
+};
+
+export const isMatchState = (value: unknown): value is MatchState => {
+  if (!value || typeof value !== 'object') return false;
+  const match = value as Partial<MatchState>;
+  return (
+    isMatchConfig(match.config) &&
+    Array.isArray(match.hands) &&
+    Array.isArray(match.totals) &&
+    match.totals.every((total) => Number.isInteger(total)) &&
+    (match.status === 'playing' || match.status === 'over') &&
+    Array.isArray(match.winners)
+  );
+};
@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ClientMessage, RoomTicket, ServerMessage } from './api';
+
+const SOCKET_PATH = '/ws';
+const TICKET_KEY = 'crazy-ace-room';
+
+/** Delays between reconnect attempts; the last one repeats. */
+const RETRY_MS = [1000, 2000, 5000, 10000];
+
+export interface RoomHandlers {
+  onMessage(message: ServerMessage): void;
+  onConnectionChange(connected: boolean): void;
+}
+
+export interface RoomSocket {
+  send(message: ClientMessage): void;
+  close(): void;
+}
+
+/**
+ * Opens the room socket for `ticket` and keeps it open, saying hello again
+ * after every reconnect so the server restores the seat. A fatal error from
+ * the server stops the retries.
+ */
+export const connectRoom = (ticket: RoomTicket, handlers: RoomHandlers): RoomSocket => {
+  const url = `${location.protocol === 'https:' ? 'wss' : 'ws'}://${location.host}${SOCKET_PATH}`;
+  let socket: WebSocket;
+  let attempts = 0;
+  let closed = false;
+  let retry: ReturnType<typeof setTimeout> | undefined;
+
+  const open = () => {
+    socket = new WebSocket(url);
+    socket.onopen = () => {
+      attempts = 0;
+      socket.send(JSON.stringify({ type: 'hello', code: ticket.code, token: ticket.token } satisfies ClientMessage));
+      handlers.onConnectionChange(true);
+    };
+    socket.onmessage = (event) => {
+      const message: ServerMessage = JSON.parse(event.data);
+      if (message.type === 'error' && message.fatal) closed = true;
+      handlers.onMessage(message);
+    };
+    socket.onclose = () => {
+      handlers.onConnectionChange(false);
+      if (!closed) retry = setTimeout(open, RETRY_MS[Math.min(attempts++, RETRY_MS.length - 1)]);
+    };
+  };
+  open();
+
+  return {
+    send: (message) => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    },
+    close: () => {
+      closed = true;
+      clearTimeout(retry);
+      socket.close();
+    },
+  };
+};
+
+/** The ticket of the last room joined, kept so a reload can rejoin it. */
+export const loadTicket = (): RoomTicket | null => {
+  try {
+    const ticket = JSON.parse(localStorage.getItem(TICKET_KEY) ?? 'null');
+    return typeof ticket?.code === 'string' && typeof ticket?.token === 'string' && Number.isInteger(ticket?.seat) ? ticket : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveTicket = (ticket: RoomTicket) => localStorage.setItem(TICKET_KEY, JSON.stringify(ticket));
+
+export const clearTicket = () => localStorage.removeItem(TICKET_KEY);
@@ -0,0 +1,20 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** A source of uniform numbers in [0, 1), compatible with `Math.random`. */
+export type Rng = () => number;
+
+/** Small, fast 32-bit PRNG; the same seed always yields the same sequence. */
+export const mulberry32 = (seed: number): Rng => {
+  let t = seed >>> 0;
+  return () => {
+    t = (t + 0x6d2b79f5) >>> 0;
+    let r = Math.imul(t ^ (t >>> 15), 1 | t);
+    r = (r + Math.imul(r ^ (r >>> 7), 61 | r)) ^ r;
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296) >>> 0;
@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { SUITS } from './types';
+import { RuleSet, isRuleSet } from './rules';
+import { AI_LEVELS, GameAction, GameEvent, GameState, MAX_NAME_LENGTH, MAX_SEATS, MIN_SEATS, TableConfig, applyAction, createGame } from './engine';
+
+/**
+ * Everything needed to reproduce a game: the deck seed plus the ordered moves.
+ * Bump `REPLAY_VERSION` whenever the engine changes in a way that makes old
+ * records replay differently.
+ */
+export const REPLAY_VERSION = 6;
+
+export interface GameRecord {
+  version: number;
+  seed: number;
+  table: TableConfig;
+  rules: RuleSet;
+  moves: GameAction[];
+}
+
+export interface ReplayFrame {
+  state: GameState;
+  /** Events produced by the move that led to this frame; empty for the deal. */
+  events: GameEvent[];
+}
+
+export const toRecord = (state: GameState): GameRecord => ({
+  version: REPLAY_VERSION,
+  seed: state.seed,
+  table: state.table,
+  rules: state.rules,
+  moves: state.moves,
+});
+
+/** Re-deals the recorded game and returns one frame per move, starting with the deal. */
+export const replayGame = (record: GameRecord): ReplayFrame[] => {
+  const frames: ReplayFrame[] = [{ state: createGame(record.table, record.rules, record.seed), events: [] }];
+  for (const move of record.moves) {
+    const { state, events } = applyAction(frames[frames.length - 1].state, move);
+    frames.push({ state, events });
+  }
+  return frames;
+};
+
+export const isTable = (value: unknown): value is TableConfig => {
+  if (!value || typeof value !== 'object') return false;
+  const table = value as Partial<TableConfig>;
+  return (
+    Array.isArray(table.seats) &&
+    table.seats.length >= MIN_SEATS &&
+    table.seats.length <= MAX_SEATS &&
+    table.seats.every(
+      (seat) =>
+        typeof seat?.name === 'string' &&
+        seat.name.length <= MAX_NAME_LENGTH &&
+        (seat.kind === 'human' || seat.kind === 'ai') &&
+        (seat.level === undefined || AI_LEVELS.includes(seat.level)),
+    ) &&
+    typeof table.playToLast === 'boolean'
+  );
+};
+
+export const isAction = (value: unknown): value is GameAction => {
+  if (!value || typeof value !== 'object') return false;
+  const action = value as Record<string, unknown>;
+  if (!Number.isInteger(action.seat)) return false;
+
+  switch (action.type) {
+    case 'play':
+      return typeof action.cardId === 'string';
+    case 'chooseSuit':
+      return SUITS.includes(action.suit as (typeof SUITS)[number]);
+    case 'draw':
+    case 'pass':
+      return true;
+    default:
+      return false;
+  }
+};
+
+/** Parses an exported replay file, throwing if it is not a usable record. */
+export const parseGameRecord = (text: string): GameRecord => {
+  const data = JSON.parse(text) as Partial<GameRecord>;
+  if (data.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${String(data.version)}`);
+  }
+  if (
+    typeof data.seed !== 'number' ||
+    !isTable(data.table) ||
+    !isRuleSet(data.rules) ||
+    !Array.isArray(data.moves) ||
+    !data.moves.every(isAction)
+  ) {
+    throw new Error('Replay file is missing its seed, table, rules or moves.');
+  }
+  return { version: data.version, seed: data.seed, table: data.table, rules: data.rules, moves: data.moves };
+};
@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PlayerView } from './view';
+
+const RESUME_KEY = 'crazy-ace-save';
+
+/**
+ * Bump when `ResumeTicket` changes shape; older tickets are dropped. The game
+ * itself, deck and hidden hands included, is saved by the server; the browser
+ * keeps only what it needs to ask for it back.
+ */
+export const RESUME_VERSION = 3;
+
+export interface ResumeTicket {
+  version: number;
+  id: string;
+  tokens: Record<number, string>;
+  practice: boolean;
+  /** The daily challenge's date, so its result is still recorded when resumed. */
+  daily: string | null;
+  savedAt: number;
+  /** Enough to label the Resume button without a round trip. */
+  seats: string[];
+  hand: number;
+}
+
+/** Why a saved ticket was thrown away; the start screen words it in the player's language. */
+export type DiscardReason = 'unreadable' | 'outdated' | 'damaged' | 'gone';
+
+export type LoadedResume =
+  | { status: 'none' }
+  | { status: 'ok'; ticket: ResumeTicket }
+  | { status: 'discarded'; reason: DiscardReason };
+
+export const saveResume = (id: string, tokens: Record<number, string>, practice: boolean, daily: string | null, view: PlayerView) => {
+  const ticket: ResumeTicket = {
+    version: RESUME_VERSION,
+    id,
+    tokens,
+    practice,
+    daily,
+    savedAt: Date.now(),
+    seats: view.seats.map((seat) => seat.name),
+    hand: view.hand.length,
+  };
+  localStorage.setItem(RESUME_KEY, JSON.stringify(ticket));
+};
+
+export const clearResume = () => localStorage.removeItem(RESUME_KEY);
+
+/** Reads the saved ticket, discarding it if it is unreadable or from another version. */
+export const loadResume = (): LoadedResume => {
+  const text = localStorage.getItem(RESUME_KEY);
+  if (text === null) return { status: 'none' };
+
+  let ticket: Partial<ResumeTicket>;
+  try {
+    ticket = JSON.parse(text);
+  } catch {
+    clearResume();
+    return { status: 'discarded', reason: 'unreadable' };
+  }
+  if (ticket?.version !== RESUME_VERSION) {
+    clearResume();
+    return { status: 'discarded', reason: 'outdated' };
+  }
+  if (
+    typeof ticket.id !== 'string' ||
+    !ticket.tokens ||
+    typeof ticket.tokens !== 'object' ||
+    !Object.values(ticket.tokens).every((token) => typeof token === 'string') ||
+    typeof ticket.practice !== 'boolean' ||
+    (ticket.daily !== null && typeof ticket.daily !== 'string') ||
+    !Array.isArray(ticket.seats) ||
+    typeof ticket.hand !== 'number' ||
+    typeof ticket.savedAt !== 'number'
+  ) {
+    clearResume();
+    return { status: 'discarded', reason: 'damaged' };
+  }
+  return { status: 'ok', ticket: ticket as ResumeTicket };
+};
@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GameAction, GameEvent, legalActions } from './engine';
+import { GameRecord, replayGame } from './replay';
+
+/** A play that leaves this many cards or fewer is worth a second look when holding back was allowed. */
+export const LOW_HAND = 2;
+
+export interface ReviewedMove {
+  /** Index into the record's moves. */
+  index: number;
+  seat: number;
+  /** What the move set off, for the reader to see in their own language. */
+  events: GameEvent[];
+  /** What the seat could have done instead of this play, when it shed a card it could have kept. */
+  instead: 'draw' | 'pass' | null;
+  /** Cards left in the seat's hand after the move. */
+  handAfter: number;
+}
+
+export interface GameReview {
+  seat: number;
+  moves: ReviewedMove[];
+  /** False when emptying a hand wins, so shedding fast is never a mistake. */
+  applies: boolean;
+  flagged: number;
+}
+
+/**
+ * Replays a finished game and flags the plays where `seat` ran its hand down
+ * faster than it had to: under "first to empty their hand loses", every play
+ * that left it nearly empty while a draw or pass was still allowed.
+ */
+export const reviewGame = (record: GameRecord, seat: number): GameReview => {
+  const frames = replayGame(record);
+  const applies = record.rules.emptyHandLoses;
+  const moves = record.moves.map((action: GameAction, index): ReviewedMove => {
+    const before = frames[index].state;
+    const after = frames[index + 1].state;
+    const events = frames[index + 1].events;
+    const handAfter = after.hands[action.seat].length;
+
+    let instead: ReviewedMove['instead'] = null;
+    if (applies && action.seat === seat && action.type === 'play' && handAfter <= LOW_HAND) {
+      const holdBack = legalActions(before).find((legal) => legal.type === 'draw' || legal.type === 'pass');
+      if (holdBack) instead = holdBack.type as 'draw' | 'pass';
+    }
+    return { index, seat: action.seat, events, instead, handAfter };
+  });
+  return { seat, moves, applies, flagged: moves.filter((move) => move.instead).length };
+};
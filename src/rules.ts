@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { JOKER, RANKS, Rank } from './types';
+
+/**
+ * What happens when a card of a given rank is played.
+ *
+ * `wild`: always playable and its player picks the next suit.
+ * `drawTwo`: the next seat draws two cards and loses their turn.
+ * `skip`: the next seat loses their turn.
+ * `reverse`: turn order flips; with two seats left it acts like `skip`.
+ */
+export type RankEffect = 'wild' | 'drawTwo' | 'skip' | 'reverse';
+
+export const RANK_EFFECTS: RankEffect[] = ['wild', 'drawTwo', 'skip', 'reverse'];
+
+/**
+ * How far a seat may go when it draws by choice; penalty draws always end the
+ * turn. Drawing is allowed even while holding a playable card.
+ *
+ * `one`: draw a single card, then play or pass.
+ * `untilPlayable`: keep drawing until a playable card turns up, then play or pass.
+ * `upTo`: draw one card at a time, at most `drawLimit` a turn, playing or passing in between.
+ */
+export type DrawPolicy = 'one' | 'untilPlayable' | 'upTo';
+
+export const DRAW_POLICIES: DrawPolicy[] = ['one', 'untilPlayable', 'upTo'];
+
+export interface RuleSet {
+  /** Effect per rank; ranks left out are plain cards. */
+  effects: Partial<Record<Rank, RankEffect>>;
+  /** Whether a pending draw-two can be passed on by playing another draw-two card. */
+  stackDrawTwo: boolean;
+  /** Cards dealt to each seat (fewer when the table is too big for the deck). */
+  handSize: number;
+  /** The misère rule: emptying your hand first loses. When false it wins. */
+  emptyHandLoses: boolean;
+  /** Standard decks shuffled together. */
+  decks: number;
+  /** Whether each deck adds its two Jokers, which are always wild. */
+  jokers: boolean;
+  drawPolicy: DrawPolicy;
+  /** Most cards a seat may draw in one turn under the `upTo` policy. */
+  drawLimit: number;
+}
+
+export const MIN_HAND_SIZE = 1;
+export const MAX_HAND_SIZE = 15;
+export const MIN_DECKS = 1;
+export const MAX_DECKS = 3;
+export const MIN_DRAW_LIMIT = 2;
+export const MAX_DRAW_LIMIT = 5;
+
+export const DEFAULT_RULES: RuleSet = {
+  effects: { A: 'wild' },
+  stackDrawTwo: false,
+  handSize: 10,
+  emptyHandLoses: true,
+  decks: 1,
+  jokers: false,
+  drawPolicy: 'one',
+  drawLimit: 3,
+};
+
+/** A popular set of house rules, offered as a one-click preset. */
+export const HOUSE_RULES: RuleSet = {
+  effects: { A: 'wild', '8': 'wild', '2': 'drawTwo', Q: 'skip', J: 'reverse' },
+  stackDrawTwo: true,
+  handSize: 10,
+  emptyHandLoses: true,
+  decks: 1,
+  jokers: false,
+  drawPolicy: 'one',
+  drawLimit: 3,
+};
+
+/** Jokers are wild whatever the house rules say about the other ranks. */
+export const effectOf = (rules: RuleSet, rank: Rank): RankEffect | undefined => (rank === JOKER ? 'wild' : rules.effects[rank]);
+
+export const isRuleSet = (value: unknown): value is RuleSet => {
+  if (!value || typeof value !== 'object') return false;
+  const rules = value as Partial<RuleSet>;
+  return (
+    !!rules.effects &&
+    typeof rules.effects === 'object' &&
+    Object.entries(rules.effects).every(
+      ([rank, effect]) => RANKS.includes(rank as Rank) && RANK_EFFECTS.includes(effect as RankEffect),
+    ) &&
+    typeof rules.stackDrawTwo === 'boolean' &&
+    Number.isInteger(rules.handSize) &&
+    rules.handSize! >= MIN_HAND_SIZE &&
+    rules.handSize! <= MAX_HAND_SIZE &&
+    typeof rules.emptyHandLoses === 'boolean' &&
+    Number.isInteger(rules.decks) &&
+    rules.decks! >= MIN_DECKS &&
+    rules.decks! <= MAX_DECKS &&
+    typeof rules.jokers === 'boolean' &&
+    DRAW_POLICIES.includes(rules.drawPolicy as DrawPolicy) &&
+    Number.isInteger(rules.drawLimit) &&
+    rules.drawLimit! >= MIN_DRAW_LIMIT &&
+    rules.drawLimit! <= MAX_DRAW_LIMIT
+  );
+};
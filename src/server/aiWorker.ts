@@ -0,0 +1,18 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { parentPort } from 'node:worker_threads';
+import { GameState } from '../engine';
+import { planAiTurn } from '../ai';
+import { aiRng } from './planner';
+
+/** Worker entry for `createAiPlanner`: answers each posted game with the plan for the seat on turn. */
+parentPort!.on('message', (state: GameState) => {
+  try {
+    parentPort!.postMessage({ actions: planAiTurn(state, state.turn, aiRng(state)) });
+  } catch (err) {
+    parentPort!.postMessage({ error: err instanceof Error ? err.message : String(err) });
+  }
+});
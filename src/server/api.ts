@@ -0,0 +1,210 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { NextFunction, Request, Response, Router } from 'express';
+import { GameEvent, IllegalMoveError, applyAction } from '../engine';
+import { isRuleSet } from '../rules';
+import { isMatchConfig } from '../match';
+import { DAILY_RULES, DAILY_TABLE, dailyKey } from '../daily';
+import { isAction, isTable, replayGame, toRecord } from '../replay';
+import { getPlayerView, redactEvents } from '../view';
+import type { CreatedGame, MoveResult } from '../api';
+import { GameSession, GameStore, playAiTurn } from './games';
+import { RoomError, RoomManager } from './rooms';
+import { GameHistory } from './history';
+import { DailyStore, isPlayerId } from './daily';
+import { LlmClient } from './llm';
+import { AiPlanner } from './planner';
+
+interface Caller {
+  session: GameSession;
+  seat: number;
+}
+
+const fail = (res: Response, status: number, error: string) => res.status(status).json({ error });
+
+const bearer = (req: Request) => req.get('Authorization')?.replace(/^Bearer /, '') ?? '';
+
+/**
+ * The game API. Every route but creation needs the caller's seat token as a
+ * bearer token, and answers with that seat's view only. Online rooms are
+ * created and joined here but played over the room socket.
+ */
+export const createApiRouter = (
+  store: GameStore,
+  rooms: RoomManager,
+  history: GameHistory,
+  dailies: DailyStore,
+  llmClient: LlmClient | null,
+  planner: AiPlanner,
+): Router => {
+  const router = Router();
+
+  const authorize = (req: Request, res: Response, next: NextFunction) => {
+    const session = store.get(req.params.id);
+    if (!session) return fail(res, 404, 'No such game.');
+    const seat = store.seatFor(session, bearer(req));
+    if (seat === null) return fail(res, 403, 'That token does not belong to a seat in this game.');
+    res.locals.caller = { session, seat } satisfies Caller;
+    next();
+  };
+
+  const result = ({ session, seat }: Caller, events: GameEvent[], talk?: string | null): MoveResult => ({
+    view: getPlayerView(session.state, seat),
+    events: redactEvents(events, seat),
+    talk,
+    match: session.match,
+  });
+
+  const created = (res: Response, session: GameSession) => {
+    const tokens: Record<number, string> = {};
+    session.tokens.forEach((token, seat) => {
+      if (token) tokens[seat] = token;
+    });
+    const seat = session.tokens.findIndex((token) => token !== null);
+    const body: CreatedGame = { id: session.id, tokens, view: getPlayerView(session.state, seat), match: session.match };
+    res.status(201).json(body);
+  };
+
+  router.post('/games', (req, res) => {
+    const { table, rules, practice = false, match = null, daily = null, player = null } = req.body ?? {};
+    // The daily challenge brings its own table and rules, is never practice, and is dealt once per player.
+    if (daily !== null) {
+      const today = dailyKey();
+      if (daily !== today) return fail(res, 400, `Today's challenge is ${today}.`);
+      if (!isPlayerId(player)) return fail(res, 400, 'Invalid player.');
+      if (dailies.results(player)[today]) return fail(res, 409, "You have already played today's challenge.");
+      const session = store.create(DAILY_TABLE, DAILY_RULES, false, null, dailies.seed(today));
+      dailies.start(today, player, session.id);
+      return created(res, session);
+    }
+    if (!isTable(table) || !isRuleSet(rules) || typeof practice !== 'boolean') return fail(res, 400, 'Invalid table or rules.');
+    if (match !== null && !isMatchConfig(match)) return fail(res, 400, 'Invalid match scoring.');
+    if (!table.seats.some((seat) => seat.kind === 'human')) return fail(res, 400, 'At least one seat must be human.');
+
+    created(res, store.create(table, rules, practice, match));
+  });
+
+  router.get('/daily/:player', (req, res) => {
+    if (!isPlayerId(req.params.player)) return fail(res, 400, 'Invalid player.');
+    res.json(dailies.results(req.params.player));
+  });
+
+  router.get('/games/:id', authorize, (_req, res) => {
+    const { session, seat }: Caller = res.locals.caller;
+    res.json(getPlayerView(session.state, seat));
+  });
+
+  router.post('/games/:id/moves', authorize, (req, res) => {
+    const caller: Caller = res.locals.caller;
+    const action = req.body?.action;
+    if (!isAction(action)) return fail(res, 400, 'Invalid move.');
+    if (action.seat !== caller.seat) return fail(res, 403, 'You can only move for your own seat.');
+    try {
+      const { state, events } = applyAction(caller.session.state, action);
+      store.update(caller.session, state);
+      res.json(result(caller, events));
+    } catch (err) {
+      if (err instanceof IllegalMoveError) return fail(res, 409, err.message);
+      throw err;
+    }
+  });
+
+  router.post('/games/:id/ai', authorize, async (_req, res, next) => {
+    const caller: Caller = res.locals.caller;
+    const { session } = caller;
+    const state = session.state;
+    const seat = state.turn;
+    if (state.status !== 'playing' || state.table.seats[seat].kind !== 'ai') return fail(res, 409, 'It is not an AI seat\'s turn.');
+    if (session.thinking) return fail(res, 409, `${state.table.seats[seat].name} is already thinking.`);
+
+    session.thinking = true;
+    try {
+      const turn = await playAiTurn(state, llmClient, planner);
+      store.update(session, turn.state);
+      res.json(result(caller, turn.events, turn.talk));
+    } catch (err) {
+      next(err);
+    } finally {
+      session.thinking = false;
+    }
+  });
+
+  // Takes back the last human turn, and every AI move since, by replaying the
+  // game up to it; the deck is seeded, so the same cards come up again.
+  router.post('/games/:id/undo', authorize, (_req, res) => {
+    const caller: Caller = res.locals.caller;
+    const { session } = caller;
+    if (!session.practice) return fail(res, 403, 'Undo is only allowed in practice games.');
+    if (session.thinking) return fail(res, 409, 'Wait for the AI to finish its turn.');
+    if (session.match && session.state.status === 'over') return fail(res, 409, 'This hand has already been scored.');
+
+    const moves = session.state.moves;
+    let start = moves.length;
+    while (start > 0 && session.tokens[moves[start - 1].seat] === null) start--;
+    if (start === 0) return fail(res, 409, 'Nothing to undo.');
+    const seat = moves[start - 1].seat;
+    while (start > 0 && moves[start - 1].seat === seat) start--;
+
+    const frames = replayGame({ ...toRecord(session.state), moves: moves.slice(0, start) });
+    store.update(session, frames[frames.length - 1].state);
+    res.json(result(caller, []));
+  });
+
+  router.get('/games/:id/match', authorize, (_req, res) => {
+    const { session }: Caller = res.locals.caller;
+    res.json(session.match);
+  });
+
+  router.post('/games/:id/hands', authorize, (_req, res) => {
+    const caller: Caller = res.locals.caller;
+    const { session } = caller;
+    if (session.match?.status !== 'playing') return fail(res, 409, 'This game is not a match in progress.');
+    if (session.state.status === 'playing') return fail(res, 409, 'Finish this hand first.');
+    store.nextHand(session);
+    res.status(201).json(result(caller, []));
+  });
+
+  router.get('/games/:id/record', authorize, (_req, res) => {
+    const { session }: Caller = res.locals.caller;
+    if (session.state.status === 'playing') return fail(res, 409, 'The record is only available once the game is over.');
+    res.json(toRecord(session.state));
+  });
+
+  const roomRoute = (handler: (req: Request, res: Response) => void) => (req: Request, res: Response) => {
+    try {
+      handler(req, res);
+    } catch (err) {
+      if (err instanceof RoomError) return fail(res, err.status, err.message);
+      throw err;
+    }
+  };
+
+  router.post('/rooms', roomRoute((req, res) => {
+    const { table, rules, name } = req.body ?? {};
+    if (!isTable(table) || !isRuleSet(rules)) return fail(res, 400, 'Invalid table or rules.');
+    res.status(201).json(rooms.create(table, rules, name));
+  }));
+
+  router.post('/rooms/:code/join', roomRoute((req, res) => {
+    res.json(rooms.join(req.params.code, req.body?.name));
+  }));
+
+  router.get('/rooms/:code/record', roomRoute((req, res) => {
+    res.json(rooms.record(req.params.code, bearer(req)));
+  }));
+
+  router.get('/leaderboard', (_req, res) => {
+    res.json(history.leaderboard());
+  });
+
+  router.get('/players/:name', (req, res) => {
+    const profile = history.profile(req.params.name);
+    if (!profile) return fail(res, 404, 'No games recorded for that player yet.');
+    res.json(profile);
+  });
+
+  return router;
+};
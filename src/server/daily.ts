@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createHmac, randomBytes } from 'node:crypto';
+import Database from 'better-sqlite3';
+import { GameState } from '../engine';
+import { DailyOutcome, DailyResult, turnsTaken } from '../daily';
+import { outcomeOf } from './history';
+
+/** Daily challenge attempts: one per player per day, recorded as soon as the deal is handed out. */
+export interface DailyStore {
+  /** The day's deal. Only the server can work it out, so nobody can look ahead at the deck or the AI hands. */
+  seed(day: string): number;
+  /** The result of every day `player` has played, an unfinished attempt counting as a loss. */
+  results(player: string): Record<string, DailyResult>;
+  /** Records that `player` has taken `day`'s deal as game `gameId`. */
+  start(day: string, player: string, gameId: string): void;
+  /** Brings the attempt played as `gameId`, if any, up to date with `state`; false when the game is no daily. */
+  update(gameId: string, state: GameState): boolean;
+}
+
+interface AttemptRow {
+  day: string;
+  outcome: DailyOutcome;
+  turns: number;
+}
+
+/** Player ids are random tokens the browser keeps; anything else is refused. */
+export const isPlayerId = (value: unknown): value is string =>
+  typeof value === 'string' && /^[\w-]{8,64}$/.test(value);
+
+/**
+ * `secret` keys the daily seeds; set DAILY_SECRET so the deal survives a
+ * restart. Without it a random one is used and each restart deals anew.
+ */
+export const createDailyStore = (db: Database.Database, secret = process.env.DAILY_SECRET): DailyStore => {
+  if (!secret) {
+    console.warn('DAILY_SECRET is not set; the daily challenge will be dealt afresh after a restart.');
+    secret = randomBytes(32).toString('hex');
+  }
+  const key = secret;
+  const insert = db.prepare('INSERT INTO daily_attempts (day, player, game_id) VALUES (?, ?, ?)');
+  const select = db.prepare<[string], AttemptRow>('SELECT day, outcome, turns FROM daily_attempts WHERE player = ?');
+  const progress = db.prepare('UPDATE daily_attempts SET turns = @turns, outcome = @outcome WHERE game_id = @gameId');
+
+  return {
+    seed: (day) => createHmac('sha256', key).update(day).digest().readUInt32BE(0),
+    results: (player) =>
+      Object.fromEntries(select.all(player).map(({ day, outcome, turns }) => [day, { outcome, turns }])),
+    start: (day, player, gameId) => {
+      insert.run(day, player, gameId);
+    },
+    update: (gameId, state) => {
+      const seat = state.table.seats.findIndex((seat) => seat.kind === 'human');
+      const { changes } = progress.run({
+        gameId,
+        turns: turnsTaken(state.moves, seat),
+        outcome: state.status === 'over' ? outcomeOf(state, seat) : 'lost',
+      });
+      return changes > 0;
+    },
+  };
+};
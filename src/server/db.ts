@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { mkdirSync } from 'node:fs';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+
+export const DEFAULT_DATABASE_PATH = 'data/crazy-ace.db';
+
+/**
+ * Schema changes, oldest first. Each one runs once, in a transaction, and the
+ * database's `user_version` records how many have been applied. Never edit a
+ * migration that has shipped; append a new one instead.
+ */
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE players (
+    id INTEGER PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+  CREATE TABLE games (
+    id INTEGER PRIMARY KEY,
+    finished_at TEXT NOT NULL DEFAULT (datetime('now')),
+    seed INTEGER NOT NULL,
+    rules TEXT NOT NULL,
+    play_to_last INTEGER NOT NULL,
+    online INTEGER NOT NULL,
+    move_count INTEGER NOT NULL,
+    end_reason TEXT NOT NULL
+  );
+  CREATE TABLE game_seats (
+    game_id INTEGER NOT NULL REFERENCES games (id) ON DELETE CASCADE,
+    seat INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    level TEXT,
+    player_id INTEGER REFERENCES players (id),
+    final_hand INTEGER NOT NULL,
+    outcome TEXT NOT NULL,
+    PRIMARY KEY (game_id, seat)
+  );
+  CREATE INDEX game_seats_player ON game_seats (player_id);
+  `,
+  `
+  CREATE TABLE saved_games (
+    id TEXT PRIMARY KEY,
+    version INTEGER NOT NULL,
+    tokens TEXT NOT NULL,
+    state TEXT NOT NULL,
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+  );
+  `,
+  `
+  ALTER TABLE saved_games ADD COLUMN practice INTEGER NOT NULL DEFAULT 0;
+  `,
+  `
+  ALTER TABLE saved_games ADD COLUMN match_state TEXT;
+  `,
+  // An attempt stands as lost until its game finishes, so walking away from a bad deal costs the same as playing it out.
+  `
+  CREATE TABLE daily_attempts (
+    day TEXT NOT NULL,
+    player TEXT NOT NULL,
+    game_id TEXT NOT NULL UNIQUE,
+    outcome TEXT NOT NULL DEFAULT 'lost',
+    turns INTEGER NOT NULL DEFAULT 0,
+    started_at TEXT NOT NULL DEFAULT (datetime('now')),
+    PRIMARY KEY (day, player)
+  );
+  `,
+];
+
+export const migrate = (db: Database.Database) => {
+  const applied = db.pragma('user_version', { simple: true }) as number;
+  for (let version = applied; version < MIGRATIONS.length; version++) {
+    db.transaction(() => {
+      db.exec(MIGRATIONS[version]);
+      db.pragma(`user_version = ${version + 1}`);
+    })();
+  }
+};
+
+/** Opens (creating if needed) and migrates the database; `:memory:` works for throwaway stores. */
+export const openDatabase = (file = process.env.DATABASE_PATH ?? DEFAULT_DATABASE_PATH): Database.Database => {
+  if (file !== ':memory:') mkdirSync(path.dirname(file), { recursive: true });
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  migrate(db);
+  return db;
+};
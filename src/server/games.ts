@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { randomUUID } from 'node:crypto';
+import { GameAction, GameEvent, GameState, TableConfig, applyAction, createGame } from '../engine';
+import { RuleSet } from '../rules';
+import { MatchConfig, MatchState, createMatch, recordHand } from '../match';
+import { AI_STRATEGIES, planAiTurn } from '../ai';
+import { DailyStore } from './daily';
+import { LlmClient, planLlmTurn } from './llm';
+import { AiPlanner, aiRng } from './planner';
+import { GameHistory } from './history';
+import { SaveStore } from './saves';
+
+/** A game held by the server. Only the server ever sees `state` in full. */
+export interface GameSession {
+  id: string;
+  state: GameState;
+  /** Secret per seat; null for AI seats, which nobody may act for. */
+  tokens: (string | null)[];
+  /** Practice games allow undo and are left out of the history. */
+  practice: boolean;
+  /** Scores across hands when this is a match; `state` is the current hand. */
+  match: MatchState | null;
+  /** Set while an AI turn is being planned, so it is never played twice. */
+  thinking: boolean;
+}
+
+export interface GameStore {
+  /** Deals a new game, from `seed` when given (as for the daily challenge). */
+  create(table: TableConfig, rules: RuleSet, practice: boolean, match: MatchConfig | null, seed?: number): GameSession;
+  get(id: string): GameSession | undefined;
+  /** The seat a token belongs to in `session`, or null. */
+  seatFor(session: GameSession, token: string): number | null;
+  /**
+   * Moves `session` on (or back) to `state`, recording a ranked game and
+   * scoring a match hand once it finishes. A daily challenge is recorded with
+   * its attempt instead: its seat is everyone's "You", so it stays off the
+   * leaderboard.
+   */
+  update(session: GameSession, state: GameState): void;
+  /** Deals the next hand of a match whose current hand is over. */
+  nextHand(session: GameSession): void;
+}
+
+export interface AiTurnResult {
+  state: GameState;
+  events: GameEvent[];
+  talk: string | null;
+}
+
+const applyTurn = (state: GameState, actions: GameAction[], talk: string | null): AiTurnResult => {
+  const events: GameEvent[] = [];
+  let after = state;
+  for (const action of actions) {
+    const applied = applyAction(after, action);
+    after = applied.state;
+    events.push(...applied.events);
+  }
+  return { state: after, events, talk };
+};
+
+/**
+ * Plans and applies the whole turn of the AI seat on turn, off the event loop
+ * on `planner` unless the seat asks a model. Should the seat's strategy fail
+ * or plan an illegal move, Normal plays the turn instead, so a game never
+ * stalls on an AI seat.
+ */
+export const playAiTurn = async (state: GameState, llmClient: LlmClient | null, planner: AiPlanner): Promise<AiTurnResult> => {
+  const seat = state.turn;
+  try {
+    const turn = state.table.seats[seat].level === 'llm'
+      ? await planLlmTurn(state, seat, llmClient, aiRng(state))
+      : { actions: await planner.plan(state), talk: null };
+    return applyTurn(state, turn.actions, turn.talk);
+  } catch (err) {
+    console.error(`AI turn for ${state.table.seats[seat].name} failed; Normal plays it instead.`, err);
+    return applyTurn(state, planAiTurn(state, seat, aiRng(state), AI_STRATEGIES.normal), null);
+  }
+};
+
+/** Live games in memory, backed by `saves` so they can be resumed after a restart. */
+export const createGameStore = (history: GameHistory, saves: SaveStore, dailies: DailyStore): GameStore => {
+  const sessions = new Map<string, GameSession>();
+  return {
+    create: (table, rules, practice, match, seed) => {
+      const session: GameSession = {
+        id: randomUUID(),
+        state: createGame(table, rules, seed),
+        tokens: table.seats.map((seat) => (seat.kind === 'human' ? randomUUID() : null)),
+        practice,
+        match: match && createMatch(match, table.seats.length),
+        thinking: false,
+      };
+      sessions.set(session.id, session);
+      saves.save(session);
+      return session;
+    },
+    get: (id) => {
+      if (sessions.has(id)) return sessions.get(id);
+      const saved = saves.load(id);
+      if (saved) sessions.set(id, saved);
+      return saved ?? undefined;
+    },
+    seatFor: (session, token) => {
+      const seat = session.tokens.indexOf(token);
+      return seat === -1 ? null : seat;
+    },
+    update: (session, state) => {
+      const finished = session.state.status === 'playing' && state.status === 'over';
+      session.state = state;
+      const daily = dailies.update(session.id, state);
+      if (finished) {
+        if (!session.practice && !daily) history.recordGame(state, false);
+        if (session.match) session.match = recordHand(session.match, state);
+      }
+      // A match between hands is still worth resuming.
+      if (state.status === 'playing' || session.match?.status === 'playing') saves.save(session);
+      else saves.remove(session.id);
+    },
+    nextHand: (session) => {
+      session.state = createGame(session.state.table, session.state.rules);
+      saves.save(session);
+    },
+  };
+};
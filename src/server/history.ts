@@ -0,0 +1,164 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import Database from 'better-sqlite3';
+import { AiLevel, DEFAULT_TABLE, EndReason, GameState, MAX_SEATS, SeatKind } from '../engine';
+import { DEFAULT_AI_LEVEL } from '../ai';
+import { CATALOGS } from '../i18n';
+import type { GameSummary, LeaderboardEntry, PlayerProfile, SeatOutcome, WinLoss } from '../api';
+
+export const LEADERBOARD_SIZE = 20;
+const RECENT_GAMES = 10;
+
+/** Finished games and the player profiles built from them. */
+export interface GameHistory {
+  recordGame(state: GameState, online: boolean): void;
+  leaderboard(limit?: number): LeaderboardEntry[];
+  profile(name: string): PlayerProfile | null;
+}
+
+/**
+ * Names a human seat has until someone types their own: the default "You" and
+ * the numbered seats of every language. Games under them are recorded without
+ * a profile, so untouched tables never pool into one leaderboard row.
+ */
+const PLACEHOLDER_NAMES = new Set(
+  [
+    DEFAULT_TABLE.seats[0].name,
+    ...Object.values(CATALOGS).flatMap((t) => Array.from({ length: MAX_SEATS }, (_, n) => t.tableSetup.seatName('human', n + 1))),
+  ].map((name) => name.toLowerCase()),
+);
+
+const isPlaceholderName = (name: string): boolean => PLACEHOLDER_NAMES.has(name.trim().toLowerCase());
+
+export const outcomeOf = (state: GameState, seat: number): SeatOutcome => {
+  if (state.loser === seat) return 'lost';
+  if (state.winner === seat) return 'won';
+  if (state.loser === null && state.winner === null) return 'tied';
+  return state.winner === null ? 'won' : 'survived';
+};
+
+interface SeatRow {
+  name: string;
+  kind: SeatKind;
+  level: AiLevel | null;
+  final_hand: number;
+  outcome: SeatOutcome;
+}
+
+interface GameRow {
+  id: number;
+  finished_at: string;
+  seed: number;
+  move_count: number;
+  end_reason: EndReason;
+  online: number;
+}
+
+export const createGameHistory = (db: Database.Database): GameHistory => {
+  const insertPlayer = db.prepare('INSERT INTO players (name) VALUES (?) ON CONFLICT (name) DO NOTHING');
+  const playerId = db.prepare<[string], { id: number; name: string }>('SELECT id, name FROM players WHERE name = ?');
+  const insertGame = db.prepare(
+    `INSERT INTO games (seed, rules, play_to_last, online, move_count, end_reason)
+     VALUES (@seed, @rules, @playToLast, @online, @moveCount, @endReason)`,
+  );
+  const insertSeat = db.prepare(
+    `INSERT INTO game_seats (game_id, seat, name, kind, level, player_id, final_hand, outcome)
+     VALUES (@gameId, @seat, @name, @kind, @level, @playerId, @finalHand, @outcome)`,
+  );
+  const totals = db.prepare<[number], WinLoss>(
+    `SELECT COUNT(*) AS games, COALESCE(SUM(outcome = 'won'), 0) AS wins, COALESCE(SUM(outcome = 'lost'), 0) AS losses
+     FROM game_seats WHERE player_id = ?`,
+  );
+  const ranking = db.prepare<[number], LeaderboardEntry>(
+    `SELECT p.name, COUNT(*) AS games, SUM(s.outcome = 'won') AS wins, SUM(s.outcome = 'lost') AS losses
+     FROM game_seats s JOIN players p ON p.id = s.player_id
+     GROUP BY p.id
+     ORDER BY wins DESC, losses ASC, games DESC, p.name
+     LIMIT ?`,
+  );
+  // One row per level even when a game had several AI seats of that level.
+  const vsAi = db.prepare<[number], WinLoss & { level: AiLevel }>(
+    `SELECT ai.level, COUNT(*) AS games, SUM(s.outcome = 'won') AS wins, SUM(s.outcome = 'lost') AS losses
+     FROM game_seats s
+     JOIN (SELECT DISTINCT game_id, level FROM game_seats WHERE kind = 'ai') ai ON ai.game_id = s.game_id
+     WHERE s.player_id = ?
+     GROUP BY ai.level`,
+  );
+  const recentGames = db.prepare<[number, number], GameRow>(
+    `SELECT g.id, g.finished_at, g.seed, g.move_count, g.end_reason, g.online
+     FROM games g JOIN game_seats s ON s.game_id = g.id
+     WHERE s.player_id = ?
+     ORDER BY g.id DESC
+     LIMIT ?`,
+  );
+  const seatsOf = db.prepare<[number], SeatRow>(
+    'SELECT name, kind, level, final_hand, outcome FROM game_seats WHERE game_id = ? ORDER BY seat',
+  );
+
+  const recordGame = db.transaction((state: GameState, online: boolean) => {
+    const { lastInsertRowid } = insertGame.run({
+      seed: state.seed,
+      rules: JSON.stringify(state.rules),
+      playToLast: state.table.playToLast ? 1 : 0,
+      online: online ? 1 : 0,
+      moveCount: state.moves.length,
+      endReason: state.endReason ?? 'emptiedHand',
+    });
+    state.table.seats.forEach((seat, index) => {
+      const name = seat.name.trim();
+      let player: number | null = null;
+      if (seat.kind === 'human' && name && !isPlaceholderName(name)) {
+        insertPlayer.run(name);
+        player = playerId.get(name)!.id;
+      }
+      insertSeat.run({
+        gameId: lastInsertRowid,
+        seat: index,
+        name: seat.name,
+        kind: seat.kind,
+        level: seat.kind === 'ai' ? seat.level ?? DEFAULT_AI_LEVEL : null,
+        playerId: player,
+        finalHand: state.hands[index].length,
+        outcome: outcomeOf(state, index),
+      });
+    });
+  });
+
+  const summary = (row: GameRow): GameSummary => ({
+    id: row.id,
+    finishedAt: row.finished_at,
+    seed: row.seed,
+    moveCount: row.move_count,
+    endReason: row.end_reason,
+    online: row.online === 1,
+    seats: seatsOf.all(row.id).map((seat) => ({
+      name: seat.name,
+      kind: seat.kind,
+      level: seat.level,
+      finalHand: seat.final_hand,
+      outcome: seat.outcome,
+    })),
+  });
+
+  return {
+    recordGame: (state, online) => recordGame(state, online),
+    leaderboard: (limit = LEADERBOARD_SIZE) => ranking.all(limit),
+    profile: (name) => {
+      const player = playerId.get(name.trim());
+      if (!player) return null;
+      const vs: PlayerProfile['vsAi'] = {};
+      vsAi.all(player.id).forEach(({ level, ...record }) => {
+        vs[level] = record;
+      });
+      return {
+        name: player.name,
+        ...totals.get(player.id)!,
+        vsAi: vs,
+        recent: recentGames.all(player.id, RECENT_GAMES).map(summary),
+      };
+    },
+  };
+};
@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { GameState } from '../engine';
+import { stackedDeal } from '../testing';
+import { LlmClient, LlmRequest, parseLlmMove, planLlmTurn } from './llm';
+
+/** Seat 0 holds the Ace of spades and the 4 of clubs against the 7 of hearts; seat 1 holds two diamonds. */
+const deal = (): GameState => stackedDeal(['A-spades-1', '4-clubs-1', '9-diamonds-1', '10-diamonds-1', '7-hearts-1'], 2);
+
+/** A model that gives the same answer to every prompt and counts how often it was asked. */
+const fakeClient = (answer: (signal: AbortSignal) => Promise<string>): LlmClient & { calls: number } => {
+  const client = {
+    calls: 0,
+    complete: (_request: LlmRequest, signal: AbortSignal) => {
+      client.calls++;
+      return answer(signal);
+    },
+  };
+  return client;
+};
+
+describe('parseLlmMove', () => {
+  it('rejects an answer that is not JSON', () => {
+    expect(parseLlmMove('I will play the Ace!', deal(), 0)).toBeNull();
+  });
+
+  it('rejects a move that is not legal', () => {
+    expect(parseLlmMove(JSON.stringify({ move: '4-clubs-1' }), deal(), 0)).toBeNull();
+    expect(parseLlmMove(JSON.stringify({ move: '9-diamonds-1' }), deal(), 0)).toBeNull();
+  });
+
+  it('reads a wild play together with the suit it calls', () => {
+    const parsed = parseLlmMove(JSON.stringify({ move: 'A-spades-1', suit: 'clubs', talk: ' Clubs, anyone? ' }), deal(), 0);
+    expect(parsed).toEqual({ action: { type: 'play', seat: 0, cardId: 'A-spades-1' }, suit: 'clubs', talk: 'Clubs, anyone?' });
+  });
+});
+
+describe('planLlmTurn', () => {
+  it('calls the suit named with a wild play without asking again', async () => {
+    const client = fakeClient(async () => JSON.stringify({ move: 'A-spades-1', suit: 'clubs' }));
+    const turn = await planLlmTurn(deal(), 0, client);
+    expect(turn.actions).toEqual([
+      { type: 'play', seat: 0, cardId: 'A-spades-1' },
+      { type: 'chooseSuit', seat: 0, suit: 'clubs' },
+    ]);
+    expect(turn.fellBack).toBe(false);
+    expect(client.calls).toBe(1);
+  });
+
+  it('falls back to Normal when the model does not answer in time', async () => {
+    const client = fakeClient((signal) => new Promise((_, reject) => signal.addEventListener('abort', () => reject(new Error('aborted')))));
+    const turn = await planLlmTurn(deal(), 0, client, Math.random, 20);
+    expect(turn.fellBack).toBe(true);
+    expect(turn.actions.length).toBeGreaterThan(0);
+    expect(client.calls).toBe(1);
+  });
+
+  it('falls back to Normal when the client fails', async () => {
+    const client = fakeClient(async () => {
+      throw new Error('quota exceeded');
+    });
+    const turn = await planLlmTurn(deal(), 0, client);
+    expect(turn.fellBack).toBe(true);
+    expect(turn.talk).toBeNull();
+    expect(turn.actions.length).toBeGreaterThan(0);
+    expect(client.calls).toBe(1);
+  });
+
+  it('plays as Normal without a client', async () => {
+    const turn = await planLlmTurn(deal(), 0, null);
+    expect(turn.fellBack).toBe(true);
+    expect(turn.actions.length).toBeGreaterThan(0);
+  });
+});
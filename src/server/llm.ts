@@ -0,0 +1,227 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GoogleGenAI, Type } from '@google/genai';
+import { SUITS, Suit, cardName } from '../types';
+import { Rng } from '../random';
+import { GameAction, GameState, applyAction, canPlay } from '../engine';
+import { PlayerView, getPlayerView } from '../view';
+import { cardOf, isWildIn } from '../ai/strategy';
+import { normal } from '../ai/normal';
+
+export const GEMINI_MODEL = 'gemini-2.5-flash';
+
+export const LLM_TIMEOUT_MS = 8000;
+
+export interface LlmRequest {
+  system: string;
+  prompt: string;
+}
+
+/**
+ * Anything that can answer a move prompt with the JSON described by
+ * `MOVE_SCHEMA`. Swap in a local fake to play without the network.
+ */
+export interface LlmClient {
+  complete(request: LlmRequest, signal: AbortSignal): Promise<string>;
+}
+
+/** The model's answer to a single prompt, before validation. */
+interface LlmMove {
+  move: string;
+  suit?: string;
+  talk?: string;
+}
+
+/** What one seat decided for its whole turn. */
+export interface LlmTurn {
+  actions: GameAction[];
+  /** One line of table talk, if the model offered any. */
+  talk: string | null;
+  /** True when any action came from the heuristic instead of the model. */
+  fellBack: boolean;
+}
+
+const MOVE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    move: { type: Type.STRING, description: 'Exactly one of the listed legal moves.' },
+    suit: { type: Type.STRING, enum: [...SUITS], description: 'Suit to call when the move plays a wild card.' },
+    talk: { type: Type.STRING, description: 'One short in-character remark to the table.' },
+  },
+  required: ['move'],
+};
+
+const SYSTEM_PROMPT = [
+  'You are a sly, good-humoured card shark playing Crazy Ace, a shedding game like Crazy Eights.',
+  'Pick one move from the legal moves you are given and answer with JSON only.',
+  'Add a short in-character remark (under 15 words) in "talk"; never reveal the cards in your hand.',
+].join(' ');
+
+export const createGeminiClient = (apiKey: string, model = GEMINI_MODEL): LlmClient => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    complete: async ({ system, prompt }, signal) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          systemInstruction: system,
+          responseMimeType: 'application/json',
+          responseSchema: MOVE_SCHEMA,
+          abortSignal: signal,
+        },
+      });
+      return response.text ?? '';
+    },
+  };
+};
+
+/** A Gemini client when an API key is configured, otherwise null. */
+export const defaultLlmClient = (): LlmClient | null => {
+  const apiKey = process.env.GEMINI_API_KEY;
+  return apiKey ? createGeminiClient(apiKey) : null;
+};
+
+/** How a legal action is written in prompts and expected back in `move`. */
+const moveLabel = (action: GameAction): string => {
+  switch (action.type) {
+    case 'play':
+      return action.cardId;
+    case 'chooseSuit':
+      return action.suit;
+    case 'draw':
+    case 'pass':
+      return action.type;
+  }
+};
+
+const describeRules = (view: PlayerView): string => {
+  const effects = Object.entries(view.rules.effects).map(([rank, effect]) => `${rank} is ${effect}`);
+  const goal = view.rules.emptyHandLoses
+    ? 'Emptying your hand first LOSES, so hold on to cards.'
+    : 'Emptying your hand first WINS.';
+  const jokers = view.rules.jokers ? ' Jokers are wild.' : '';
+  const drawing = {
+    one: 'You may draw one card a turn, then play or pass.',
+    untilPlayable: 'Drawing continues until you draw a playable card, then you play or pass.',
+    upTo: `You may draw up to ${view.rules.drawLimit} cards a turn, one at a time, and play or pass in between.`,
+  }[view.rules.drawPolicy];
+  return `${goal} Card effects: ${effects.join(', ') || 'none'}.${jokers} ${drawing} You may draw even when you could play.`;
+};
+
+export const buildPrompt = (view: PlayerView): string => {
+  const top = view.topDiscard;
+  const opponents = view.seats
+    .map((seat, index) => ({ seat, index }))
+    .filter(({ index }) => index !== view.seat)
+    .map(({ seat, index }) => `${seat.name}: ${view.handCounts[index]} cards${view.out.includes(index) ? ' (out)' : ''}`);
+  const lines = [
+    describeRules(view),
+    `You are ${view.seats[view.seat].name}.`,
+    `Top of the discard pile: ${top ? cardName(top) : 'none'}. Suit to follow: ${view.currentSuit}.`,
+    `Cards left in the deck: ${view.deckSize}.`,
+    `Opponents: ${opponents.join(', ')}.`,
+    `Your hand: ${view.hand.map((c) => c.id).join(', ')}.`,
+  ];
+  if (view.pendingDraw > 0) lines.push(`You must draw ${view.pendingDraw} unless you can stack a draw card.`);
+  if (view.pendingWild) lines.push(`You just played a wild ${view.pendingWild.rank}; choose the new suit.`);
+  if (view.hasDrawn) lines.push(`You already drew ${view.drawsThisTurn === 1 ? '1 card' : `${view.drawsThisTurn} cards`} this turn; play a card or pass.`);
+  lines.push(`Legal moves: ${view.legal.map(moveLabel).join(', ')}.`);
+  return lines.join('\n');
+};
+
+/**
+ * Turns a model answer into an action for `seat`, or null if it is not JSON,
+ * names no legal move, or plays a card `canPlay` rejects.
+ */
+export const parseLlmMove = (
+  text: string,
+  state: GameState,
+  seat: number,
+): { action: GameAction; suit: Suit | null; talk: string | null } | null => {
+  let answer: LlmMove;
+  try {
+    answer = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (typeof answer !== 'object' || answer === null || typeof answer.move !== 'string') return null;
+
+  const legal = getPlayerView(state, seat).legal;
+  const action = legal.find((a) => moveLabel(a) === answer.move.trim());
+  if (!action) return null;
+  if (action.type === 'play') {
+    const card = state.hands[seat].find((c) => c.id === action.cardId);
+    if (!card || !canPlay(state, card)) return null;
+  }
+
+  const suit = SUITS.find((s) => s === answer.suit) ?? null;
+  const talk = typeof answer.talk === 'string' && answer.talk.trim() ? answer.talk.trim().slice(0, 140) : null;
+  return { action, suit, talk };
+};
+
+const withTimeout = async <T>(run: (signal: AbortSignal) => Promise<T>, ms: number): Promise<T> => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`No answer from the model within ${ms} ms.`));
+    }, ms);
+  });
+  try {
+    return await Promise.race([run(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Plays `seat`'s whole turn by asking `client` for each move. A suit named
+ * alongside a wild play is used without a second prompt. After the first bad
+ * answer, error or timeout the rest of the turn falls back to Normal.
+ */
+export const planLlmTurn = async (
+  state: GameState,
+  seat: number,
+  client: LlmClient | null,
+  rng: Rng = Math.random,
+  timeoutMs = LLM_TIMEOUT_MS,
+): Promise<LlmTurn> => {
+  const actions: GameAction[] = [];
+  let talk: string | null = null;
+  let fellBack = client === null;
+  let calledSuit: Suit | null = null;
+  let next = state;
+
+  while (next.status === 'playing' && next.turn === seat) {
+    const view = getPlayerView(next, seat);
+    let action: GameAction | undefined;
+
+    if (view.pendingWild && calledSuit) {
+      action = { type: 'chooseSuit', seat, suit: calledSuit };
+    } else if (!fellBack) {
+      try {
+        const text = await withTimeout((signal) => client!.complete({ system: SYSTEM_PROMPT, prompt: buildPrompt(view) }, signal), timeoutMs);
+        const parsed = parseLlmMove(text, next, seat);
+        if (parsed) {
+          action = parsed.action;
+          talk = talk ?? parsed.talk;
+          const card = cardOf(view, action);
+          calledSuit = card && isWildIn(view, card) ? parsed.suit : null;
+        }
+      } catch {
+        // Network failures and timeouts are handled like a bad answer.
+      }
+      if (!action) fellBack = true;
+    }
+
+    action = action ?? normal.chooseAction(view, rng);
+    actions.push(action);
+    next = applyAction(next, action).state;
+  }
+  return { actions, talk, fellBack };
+};
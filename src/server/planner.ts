@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Worker } from 'node:worker_threads';
+import { GameAction, GameState } from '../engine';
+import { mulberry32 } from '../random';
+
+/** Plans AI turns on a worker thread, so Hard's playouts never hold up other games and sockets. */
+export interface AiPlanner {
+  /** Every action the seat on turn in `state` takes until its turn ends, with its own strategy. */
+  plan(state: GameState): Promise<GameAction[]>;
+}
+
+type PlanReply = { actions: GameAction[] } | { error: string };
+
+/**
+ * Randomness for an AI turn, seeded from the deal and the move number: a
+ * given position always gets the same answer, so a seeded deal such as the
+ * daily challenge plays out alike for everyone who makes the same moves.
+ */
+export const aiRng = (state: GameState) => mulberry32(state.seed ^ Math.imul(state.moves.length + 1, 0x9e3779b9));
+
+// The server runs under tsx, whose loader a worker thread has to register for itself.
+const WORKER_SOURCE = `
+  import { register } from 'tsx/esm/api';
+  register();
+  await import(${JSON.stringify(new URL('./aiWorker.ts', import.meta.url).href)});
+`;
+
+/** One worker, started on first use and again after it dies; plans waiting on a dead worker are rejected. */
+export const createAiPlanner = (): AiPlanner => {
+  let worker: Worker | null = null;
+  // The worker answers in the order it was asked.
+  const waiting: { resolve: (actions: GameAction[]) => void; reject: (err: Error) => void }[] = [];
+
+  const fail = (err: Error) => {
+    worker = null;
+    waiting.splice(0).forEach((plan) => plan.reject(err));
+  };
+
+  const start = () => {
+    const next = new Worker(WORKER_SOURCE, { eval: true });
+    next.on('message', (reply: PlanReply) => {
+      const plan = waiting.shift();
+      if ('error' in reply) plan?.reject(new Error(reply.error));
+      else plan?.resolve(reply.actions);
+    });
+    next.on('error', fail);
+    next.on('exit', (code) => {
+      if (worker === next) fail(new Error(`The AI worker stopped with code ${code}.`));
+    });
+    return next;
+  };
+
+  return {
+    plan: (state) =>
+      new Promise((resolve, reject) => {
+        worker ??= start();
+        waiting.push({ resolve, reject });
+        worker.postMessage(state);
+      }),
+  };
+};
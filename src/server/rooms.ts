@@ -0,0 +1,337 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { randomInt, randomUUID } from 'node:crypto';
+import { AiLevel, GameAction, GameEvent, GameState, IllegalMoveError, MAX_NAME_LENGTH, SeatKind, TableConfig, applyAction, createGame, legalActions } from '../engine';
+import { RuleSet } from '../rules';
+import { GameRecord, isAction, toRecord } from '../replay';
+import { getPlayerView, redactEvents } from '../view';
+import { DEFAULT_AI_LEVEL, chooseAiAction } from '../ai';
+import type { ClientMessage, RoomInfo, RoomTicket, ServerMessage } from '../api';
+import { playAiTurn } from './games';
+import { GameHistory } from './history';
+import { LlmClient } from './llm';
+import { AiPlanner } from './planner';
+
+export const TURN_SECONDS = 30;
+
+/** How long a dropped player has to reconnect before the AI takes their seat. */
+export const RECONNECT_GRACE_MS = 60_000;
+
+const AI_DELAY_MS = 1500;
+
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 5;
+
+export class RoomError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'RoomError';
+  }
+}
+
+type Send = (message: ServerMessage) => void;
+
+type TableTalk = Extract<ServerMessage, { type: 'state' }>['talk'];
+
+interface RoomSeat {
+  name: string;
+  /** The name from the table setup, restored if a joined player leaves the lobby. */
+  seatName: string;
+  kind: SeatKind;
+  level?: AiLevel;
+  token: string | null;
+  connections: Set<Send>;
+  graceTimer?: ReturnType<typeof setTimeout>;
+}
+
+interface Room {
+  code: string;
+  hostSeat: number;
+  seats: RoomSeat[];
+  playToLast: boolean;
+  rules: RuleSet;
+  state: GameState | null;
+  /** When the seat on turn runs out of time, as a `Date.now()` timestamp. */
+  deadline: number | null;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/** One socket's hold on a seat. */
+export interface RoomConnection {
+  seat: number;
+  receive(message: ClientMessage): void;
+  close(): void;
+}
+
+export interface RoomManager {
+  create(table: TableConfig, rules: RuleSet, name: string): RoomTicket;
+  join(code: string, name: string): RoomTicket;
+  /** Attaches `send` to the seat `token` belongs to; a seat may have several tabs open. */
+  connect(code: string, token: string, send: Send): RoomConnection;
+  record(code: string, token: string): GameRecord;
+}
+
+const cleanName = (name: unknown, fallback: string): string =>
+  (typeof name === 'string' ? name.trim().slice(0, MAX_NAME_LENGTH) : '') || fallback;
+
+/** What a seat does when its clock runs out: draw once, then pass; a pending wild gets the AI's suit. */
+const timeoutActions = (state: GameState, seat: number): GameAction[] => {
+  const actions: GameAction[] = [];
+  let next = state;
+  while (next.status === 'playing' && next.turn === seat) {
+    const legal = legalActions(next);
+    const action = next.pendingWild
+      ? chooseAiAction(next, seat)
+      : legal.find((a) => a.type === (next.hasDrawn ? 'pass' : 'draw')) ?? legal.find((a) => a.type === 'pass')!;
+    actions.push(action);
+    next = applyAction(next, action).state;
+  }
+  return actions;
+};
+
+export const createRoomManager = (llmClient: LlmClient | null, planner: AiPlanner, history: GameHistory): RoomManager => {
+  const rooms = new Map<string, Room>();
+
+  const newCode = (): string => {
+    let code: string;
+    do {
+      code = Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join('');
+    } while (rooms.has(code));
+    return code;
+  };
+
+  const find = (code: string): Room => {
+    const room = rooms.get(code.trim().toUpperCase());
+    if (!room) throw new RoomError('No room with that code.', 404);
+    return room;
+  };
+
+  const seatOf = (room: Room, token: string): number => {
+    const seat = room.seats.findIndex((s) => s.token === token);
+    if (seat === -1) throw new RoomError('That seat is no longer yours.', 403);
+    return seat;
+  };
+
+  const tableOf = (room: Room): TableConfig => ({
+    seats: room.seats.map(({ name, kind, level }) => (kind === 'ai' ? { name, kind, level } : { name, kind })),
+    playToLast: room.playToLast,
+  });
+
+  const info = (room: Room): RoomInfo => ({
+    code: room.code,
+    hostSeat: room.hostSeat,
+    seats: room.seats.map((s) => ({
+      name: s.name,
+      kind: s.kind,
+      level: s.level,
+      open: s.kind === 'human' && s.token === null,
+      connected: s.connections.size > 0,
+    })),
+    started: room.state !== null,
+  });
+
+  const broadcastRoom = (room: Room) => {
+    const current = info(room);
+    room.seats.forEach((s, seat) => s.connections.forEach((send) => send({ type: 'room', room: current, seat })));
+  };
+
+  const sendState = (room: Room, seat: number, send: Send, events: GameEvent[], talk: TableTalk) =>
+    send({
+      type: 'state',
+      view: getPlayerView(room.state!, seat),
+      events: redactEvents(events, seat),
+      talk,
+      timeLeft: room.deadline === null ? null : Math.max(0, room.deadline - Date.now()),
+    });
+
+  const broadcastState = (room: Room, events: GameEvent[], talk: TableTalk) =>
+    room.seats.forEach((s, seat) => s.connections.forEach((send) => sendState(room, seat, send, events, talk)));
+
+  const close = (room: Room) => {
+    clearTimeout(room.timer);
+    room.seats.forEach((s) => clearTimeout(s.graceTimer));
+    rooms.delete(room.code);
+  };
+
+  /** Stores `state`, keeping its table in step with seats the AI has taken over, and records the game once it finishes. */
+  const commit = (room: Room, state: GameState) => {
+    const finished = room.state?.status === 'playing' && state.status === 'over';
+    room.state = { ...state, table: tableOf(room) };
+    if (finished) history.recordGame(room.state, true);
+  };
+
+  /** Starts the clock for whoever is on turn and tells everyone what just happened. */
+  const advance = (room: Room, events: GameEvent[], talk: TableTalk = null) => {
+    clearTimeout(room.timer);
+    room.deadline = null;
+    const state = room.state!;
+    if (state.status === 'playing') {
+      if (state.table.seats[state.turn].kind === 'ai') {
+        room.timer = setTimeout(() => runAi(room), AI_DELAY_MS);
+      } else {
+        room.deadline = Date.now() + TURN_SECONDS * 1000;
+        room.timer = setTimeout(() => timeOut(room), TURN_SECONDS * 1000);
+      }
+    }
+    broadcastState(room, events, talk);
+  };
+
+  const runAi = async (room: Room) => {
+    const before = room.state!;
+    try {
+      const turn = await playAiTurn(before, llmClient, planner);
+      if (rooms.get(room.code) !== room || room.state!.moves.length !== before.moves.length) return;
+      commit(room, turn.state);
+      advance(room, turn.events, turn.talk ? { seat: before.turn, text: turn.talk } : null);
+    } catch (err) {
+      // Even the Normal fallback failed; say so rather than leave the table waiting in silence.
+      console.error(`Room ${room.code}: AI turn failed`, err);
+      room.seats.forEach((s) => s.connections.forEach((send) => send({ type: 'error', message: 'The AI could not take its turn.', fatal: false })));
+    }
+  };
+
+  const timeOut = (room: Room) => {
+    let state = room.state!;
+    const events: GameEvent[] = [];
+    for (const action of timeoutActions(state, state.turn)) {
+      const applied = applyAction(state, action);
+      state = applied.state;
+      events.push(...applied.events);
+    }
+    commit(room, state);
+    advance(room, events);
+  };
+
+  const start = (room: Room) => {
+    room.seats.forEach((s) => {
+      if (s.kind === 'human' && s.token === null) {
+        s.kind = 'ai';
+        s.level = DEFAULT_AI_LEVEL;
+      }
+    });
+    room.state = createGame(tableOf(room), room.rules);
+    broadcastRoom(room);
+    advance(room, []);
+  };
+
+  /** `seat` is gone for good: reopen it in the lobby, or hand it to the AI mid-game. */
+  const release = (room: Room, seat: number) => {
+    const s = room.seats[seat];
+    clearTimeout(s.graceTimer);
+    s.token = null;
+    s.connections.clear();
+
+    if (!room.seats.some((other) => other.token !== null)) return close(room);
+
+    if (room.state === null) {
+      s.name = s.seatName;
+      if (room.hostSeat === seat) room.hostSeat = room.seats.findIndex((other) => other.token !== null);
+      return broadcastRoom(room);
+    }
+
+    s.kind = 'ai';
+    s.level = DEFAULT_AI_LEVEL;
+    commit(room, room.state);
+    broadcastRoom(room);
+    if (room.state.status === 'playing' && room.state.turn === seat) advance(room, []);
+  };
+
+  const move = (room: Room, seat: number, action: unknown, send: Send) => {
+    if (!room.state) return send({ type: 'error', message: 'The game has not started yet.', fatal: false });
+    if (!isAction(action) || action.seat !== seat) return send({ type: 'error', message: 'Invalid move.', fatal: false });
+    try {
+      const { state, events } = applyAction(room.state, action);
+      commit(room, state);
+      advance(room, events);
+    } catch (err) {
+      if (err instanceof IllegalMoveError) return send({ type: 'error', message: err.message, fatal: false });
+      throw err;
+    }
+  };
+
+  return {
+    create: (table, rules, name) => {
+      const hostSeat = table.seats.findIndex((seat) => seat.kind === 'human');
+      if (hostSeat === -1) throw new RoomError('At least one seat must be human.', 400);
+      const room: Room = {
+        code: newCode(),
+        hostSeat,
+        seats: table.seats.map((seat, index) => ({
+          name: index === hostSeat ? cleanName(name, seat.name) : seat.name,
+          seatName: seat.name,
+          kind: seat.kind,
+          level: seat.level,
+          token: index === hostSeat ? randomUUID() : null,
+          connections: new Set(),
+        })),
+        playToLast: table.playToLast,
+        rules,
+        state: null,
+        deadline: null,
+      };
+      rooms.set(room.code, room);
+      return { code: room.code, seat: hostSeat, token: room.seats[hostSeat].token! };
+    },
+
+    join: (code, name) => {
+      const room = find(code);
+      if (room.state) throw new RoomError('That game has already started.', 409);
+      const seat = room.seats.findIndex((s) => s.kind === 'human' && s.token === null);
+      if (seat === -1) throw new RoomError('That room is full.', 409);
+      const s = room.seats[seat];
+      s.name = cleanName(name, s.seatName);
+      s.token = randomUUID();
+      broadcastRoom(room);
+      return { code: room.code, seat, token: s.token };
+    },
+
+    connect: (code, token, send) => {
+      const room = find(code);
+      const seat = seatOf(room, token);
+      const s = room.seats[seat];
+      clearTimeout(s.graceTimer);
+      s.connections.add(send);
+      broadcastRoom(room);
+      if (room.state) sendState(room, seat, send, [], null);
+
+      let attached = true;
+      return {
+        seat,
+        receive: (message) => {
+          if (!attached || s.token !== token) return;
+          switch (message.type) {
+            case 'start':
+              if (seat !== room.hostSeat) return send({ type: 'error', message: 'Only the host can start the game.', fatal: false });
+              if (room.state) return;
+              return start(room);
+            case 'move':
+              return move(room, seat, message.action, send);
+            case 'leave':
+              attached = false;
+              return release(room, seat);
+            default:
+              return send({ type: 'error', message: 'Unknown message.', fatal: false });
+          }
+        },
+        close: () => {
+          if (!attached) return;
+          attached = false;
+          s.connections.delete(send);
+          if (s.connections.size > 0 || s.token !== token) return;
+          s.graceTimer = setTimeout(() => release(room, seat), RECONNECT_GRACE_MS);
+          broadcastRoom(room);
+        },
+      };
+    },
+
+    record: (code, token) => {
+      const room = find(code);
+      seatOf(room, token);
+      if (!room.state || room.state.status === 'playing') throw new RoomError('The record is only available once the game is over.', 409);
+      return toRecord(room.state);
+    },
+  };
+};
@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import Database from 'better-sqlite3';
+import { GameState } from '../engine';
+import { isRuleSet } from '../rules';
+import { REPLAY_VERSION, isAction, isTable, replayGame } from '../replay';
+import { isMatchState } from '../match';
+import type { GameSession } from './games';
+
+/**
+ * Bump whenever `GameState` changes shape or the engine would replay old
+ * moves differently; saves from another version are discarded on load.
+ */
+export const SAVE_VERSION = 3;
+
+/** In-progress games, written after every move so they outlive a server restart. */
+export interface SaveStore {
+  save(session: GameSession): void;
+  /** The saved session, or null if there is none or it could not be trusted. */
+  load(id: string): GameSession | null;
+  remove(id: string): void;
+}
+
+interface SaveRow {
+  version: number;
+  tokens: string;
+  state: string;
+  practice: number;
+  match_state: string | null;
+}
+
+/**
+ * Rebuilds the game from its seed and moves and accepts the save only if that
+ * lands on exactly the stored state, so a damaged or hand-edited deck, hand
+ * or turn is caught rather than played.
+ */
+const restoreState = (json: string): GameState | null => {
+  const saved = JSON.parse(json) as GameState;
+  if (
+    !saved ||
+    typeof saved.seed !== 'number' ||
+    !isTable(saved.table) ||
+    !isRuleSet(saved.rules) ||
+    !Array.isArray(saved.moves) ||
+    !saved.moves.every(isAction)
+  ) {
+    return null;
+  }
+  const frames = replayGame({ version: REPLAY_VERSION, seed: saved.seed, table: saved.table, rules: saved.rules, moves: saved.moves });
+  const replayed = frames[frames.length - 1].state;
+  return JSON.stringify(replayed) === json ? replayed : null;
+};
+
+export const createSaveStore = (db: Database.Database): SaveStore => {
+  const upsert = db.prepare(
+    `INSERT INTO saved_games (id, version, tokens, state, practice, match_state) VALUES (@id, @version, @tokens, @state, @practice, @match)
+     ON CONFLICT (id) DO UPDATE SET version = @version, tokens = @tokens, state = @state, match_state = @match, updated_at = datetime('now')`,
+  );
+  const select = db.prepare<[string], SaveRow>('SELECT version, tokens, state, practice, match_state FROM saved_games WHERE id = ?');
+  const remove = db.prepare('DELETE FROM saved_games WHERE id = ?');
+
+  return {
+    save: (session) => {
+      upsert.run({
+        id: session.id,
+        version: SAVE_VERSION,
+        tokens: JSON.stringify(session.tokens),
+        state: JSON.stringify(session.state),
+        practice: session.practice ? 1 : 0,
+        match: session.match && JSON.stringify(session.match),
+      });
+    },
+    load: (id) => {
+      const row = select.get(id);
+      if (!row) return null;
+      try {
+        const tokens = JSON.parse(row.tokens);
+        const state = row.version === SAVE_VERSION ? restoreState(row.state) : null;
+        const match = row.match_state === null ? null : JSON.parse(row.match_state);
+        if (
+          state &&
+          Array.isArray(tokens) &&
+          tokens.length === state.table.seats.length &&
+          (match === null || (isMatchState(match) && match.totals.length === tokens.length)) &&
+          (state.status === 'playing' || match?.status === 'playing')
+        ) {
+          return { id, state, tokens, practice: row.practice === 1, match, thinking: false };
+        }
+      } catch {
+        // Unreadable JSON is treated like any other bad save.
+      }
+      console.warn(`Discarding saved game ${id}: outdated or corrupt.`);
+      remove.run(id);
+      return null;
+    },
+    remove: (id) => {
+      remove.run(id);
+    },
+  };
+};
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Server } from 'node:http';
+import { WebSocket, WebSocketServer } from 'ws';
+import type { ClientMessage, ServerMessage } from '../api';
+import { RoomConnection, RoomError, RoomManager } from './rooms';
+
+export const ROOM_SOCKET_PATH = '/ws';
+
+const MESSAGE_TYPES: ClientMessage['type'][] = ['hello', 'start', 'move', 'leave'];
+
+/** Whether parsed JSON is shaped like a client message; its fields are checked where they are used. */
+const isClientMessage = (value: unknown): value is ClientMessage =>
+  !!value && typeof value === 'object' && MESSAGE_TYPES.includes((value as { type?: unknown }).type as ClientMessage['type']);
+
+/**
+ * Serves rooms over WebSockets. A socket's first message must be a `hello`
+ * with a room ticket; everything after it is routed to that seat.
+ */
+export const attachRoomSocket = (server: Server, rooms: RoomManager) => {
+  const wss = new WebSocketServer({ server, path: ROOM_SOCKET_PATH });
+
+  wss.on('connection', (socket) => {
+    let connection: RoomConnection | null = null;
+    const send = (message: ServerMessage) => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    };
+    const refuse = (message: string) => {
+      send({ type: 'error', message, fatal: true });
+      socket.close();
+    };
+
+    socket.on('message', (data) => {
+      let message: unknown;
+      try {
+        message = JSON.parse(String(data));
+      } catch {
+        return send({ type: 'error', message: 'Malformed message.', fatal: false });
+      }
+      if (!isClientMessage(message)) return send({ type: 'error', message: 'Unknown message.', fatal: false });
+      if (connection) return connection.receive(message);
+      if (message.type !== 'hello' || typeof message.code !== 'string' || typeof message.token !== 'string') {
+        return refuse('Say hello with a room code and seat token first.');
+      }
+      try {
+        connection = rooms.connect(message.code, message.token, send);
+      } catch (err) {
+        if (err instanceof RoomError) return refuse(err.message);
+        throw err;
+      }
+    });
+
+    socket.on('close', () => connection?.close());
+  });
+
+  return wss;
+};
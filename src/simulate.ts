@@ -0,0 +1,183 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { mulberry32 } from './random';
+import { AiLevel, GameState, MAX_SEATS, MIN_SEATS, TableConfig, applyAction, createGame } from './engine';
+import { RuleSet } from './rules';
+import { AI_STRATEGIES, chooseAiAction } from './ai';
+
+/** Games still running after this many moves are abandoned rather than left to loop. */
+export const MAX_MOVES = 20000;
+
+export interface SimulationOptions {
+  /** One AI level per entrant; entrants take turns sitting first when `rotate` is set. */
+  levels: AiLevel[];
+  rules: RuleSet;
+  playToLast: boolean;
+  /** Seeds `firstSeed` to `firstSeed + games - 1` are dealt, one game each. */
+  firstSeed: number;
+  games: number;
+  rotate: boolean;
+}
+
+export interface Tally {
+  games: number;
+  wins: number;
+  losses: number;
+  ties: number;
+}
+
+export interface EntrantStats extends Tally {
+  entrant: number;
+  level: AiLevel;
+}
+
+export interface SeatStats extends Tally {
+  seat: number;
+}
+
+export interface SimulationReport {
+  options: SimulationOptions;
+  games: number;
+  entrants: EntrantStats[];
+  /** By seat position; seat 0 always moves first. */
+  seats: SeatStats[];
+  averageMoves: number;
+  longestGame: number;
+  deadlocks: number;
+  abandoned: number;
+  /** Seat 0's win and loss rates minus the average over all seats; positive means more often. */
+  firstPlayer: { winEdge: number; lossEdge: number };
+}
+
+const emptyTally = (): Tally => ({ games: 0, wins: 0, losses: 0, ties: 0 });
+
+export const rate = (count: number, games: number) => (games > 0 ? count / games : 0);
+
+/** Throws with a message fit for the command line when the options cannot be simulated. */
+export const checkOptions = (options: SimulationOptions) => {
+  const { levels, games } = options;
+  if (levels.length < MIN_SEATS || levels.length > MAX_SEATS) {
+    throw new Error(`Between ${MIN_SEATS} and ${MAX_SEATS} AI levels are needed, one per seat.`);
+  }
+  const unknown = levels.find((level) => !(level in AI_STRATEGIES));
+  if (unknown) throw new Error(`Unknown AI level: ${unknown}`);
+  // Without the network the Gemini seat would quietly play as Normal and skew the numbers.
+  if (levels.includes('llm')) throw new Error('The Gemini opponent cannot be simulated offline.');
+  if (!Number.isInteger(games) || games < 1) throw new Error('The number of games must be a positive whole number.');
+  if (!Number.isInteger(options.firstSeed) || options.firstSeed < 0) throw new Error('The first seed must be a non-negative whole number.');
+};
+
+/**
+ * Plays one game to the end with AI on every seat. Decisions draw from an RNG
+ * derived from the deal seed, so the same seed always produces the same game.
+ */
+export const playOut = (table: TableConfig, rules: RuleSet, seed: number): GameState => {
+  const rng = mulberry32((seed ^ 0x5eed5eed) >>> 0);
+  let state = createGame(table, rules, seed);
+  while (state.status === 'playing' && state.moves.length < MAX_MOVES) {
+    state = applyAction(state, chooseAiAction(state, state.turn, rng)).state;
+  }
+  return state;
+};
+
+const record = (tally: Tally, state: GameState, seat: number) => {
+  tally.games++;
+  if (state.loser === seat) tally.losses++;
+  else if (state.winner === seat || (state.winner === null && state.loser !== null)) tally.wins++;
+  else if (state.winner === null && state.loser === null) tally.ties++;
+};
+
+/** Runs the whole batch; `onProgress` is called after every game. */
+export const runSimulation = (options: SimulationOptions, onProgress?: (done: number) => void): SimulationReport => {
+  checkOptions(options);
+  const { levels, rules, playToLast, firstSeed, games, rotate } = options;
+  const seatCount = levels.length;
+  const entrants: EntrantStats[] = levels.map((level, entrant) => ({ entrant, level, ...emptyTally() }));
+  const seats: SeatStats[] = levels.map((_, seat) => ({ seat, ...emptyTally() }));
+  let moves = 0;
+  let longestGame = 0;
+  let deadlocks = 0;
+  let abandoned = 0;
+
+  for (let game = 0; game < games; game++) {
+    // Entrant `(seat + shift) % n` sits in `seat`, so every entrant gets its share of going first.
+    const shift = rotate ? game % seatCount : 0;
+    const sitting = levels.map((_, seat) => (seat + shift) % seatCount);
+    const table: TableConfig = {
+      seats: sitting.map((entrant) => ({ name: `${AI_STRATEGIES[levels[entrant]].label} ${entrant + 1}`, kind: 'ai', level: levels[entrant] })),
+      playToLast,
+    };
+    const state = playOut(table, rules, firstSeed + game);
+
+    moves += state.moves.length;
+    longestGame = Math.max(longestGame, state.moves.length);
+    if (state.status === 'playing') {
+      abandoned++;
+    } else {
+      if (state.endReason === 'deadlock') deadlocks++;
+      sitting.forEach((entrant, seat) => {
+        record(entrants[entrant], state, seat);
+        record(seats[seat], state, seat);
+      });
+    }
+    onProgress?.(game + 1);
+  }
+
+  const average = (count: (tally: Tally) => number) => seats.reduce((sum, tally) => sum + rate(count(tally), tally.games), 0) / seatCount;
+  return {
+    options,
+    games,
+    entrants,
+    seats,
+    averageMoves: moves / games,
+    longestGame,
+    deadlocks,
+    abandoned,
+    firstPlayer: {
+      winEdge: rate(seats[0].wins, seats[0].games) - average((tally) => tally.wins),
+      lossEdge: rate(seats[0].losses, seats[0].games) - average((tally) => tally.losses),
+    },
+  };
+};
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const signed = (value: number) => `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)} pts`;
+
+const formatRows = (rows: string[][]): string[] => {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  return rows.map((row) => row.map((cell, column) => (column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))).join('  '));
+};
+
+const tallyRow = (label: string, tally: Tally) => [
+  label,
+  String(tally.games),
+  percent(rate(tally.wins, tally.games)),
+  percent(rate(tally.losses, tally.games)),
+  percent(rate(tally.ties, tally.games)),
+];
+
+/** The report as plain-text tables for a terminal. */
+export const formatReport = (report: SimulationReport): string => {
+  const { options } = report;
+  const columns = ['Games', 'Win', 'Loss', 'Tie'];
+  const finished = report.games - report.abandoned;
+  const lines = [
+    `${report.games} games, seeds ${options.firstSeed}–${options.firstSeed + report.games - 1}, ` +
+      `${options.rules.emptyHandLoses ? 'first to empty their hand loses' : 'first to empty their hand wins'}` +
+      `${options.rules.drawPolicy === 'upTo' ? `, drawing up to ${options.rules.drawLimit}` : options.rules.drawPolicy === 'untilPlayable' ? ', drawing until playable' : ''}` +
+      `${options.playToLast ? ', played to the last' : ''}${options.rotate ? ', seats rotated' : ''}`,
+    '',
+    ...formatRows([['Entrant', ...columns], ...report.entrants.map((e) => tallyRow(`${e.entrant + 1}. ${AI_STRATEGIES[e.level].label}`, e))]),
+    '',
+    ...formatRows([['Seat', ...columns], ...report.seats.map((s) => tallyRow(s.seat === 0 ? '1 (first)' : String(s.seat + 1), s))]),
+    '',
+    `Average length:  ${report.averageMoves.toFixed(1)} moves (longest ${report.longestGame})`,
+    `Deadlocks:       ${report.deadlocks} (${percent(rate(report.deadlocks, finished))})`,
+    `First player:    ${signed(report.firstPlayer.winEdge)} wins, ${signed(report.firstPlayer.lossEdge)} losses vs the average seat`,
+  ];
+  if (report.abandoned > 0) lines.push(`Abandoned:       ${report.abandoned} games still running after ${MAX_MOVES} moves`);
+  return lines.join('\n');
+};
@@ -0,0 +1,20 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** Pause before each AI turn, in milliseconds; paces normal games and autoplay alike. */
+export const DEFAULT_AI_DELAY = 1500;
+export const MIN_AI_DELAY = 0;
+export const MAX_AI_DELAY = 3000;
+export const AI_DELAY_STEP = 100;
+
+const SPEED_KEY = 'crazy-ace-ai-delay';
+
+export const loadAiDelay = (): number => {
+  const saved = localStorage.getItem(SPEED_KEY);
+  const delay = Number(saved);
+  return saved !== null && Number.isInteger(delay) && delay >= MIN_AI_DELAY && delay <= MAX_AI_DELAY ? delay : DEFAULT_AI_DELAY;
+};
+
+export const saveAiDelay = (delay: number) => localStorage.setItem(SPEED_KEY, String(delay));
@@ -0,0 +1,18 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createDeck, stackDeck } from './types';
+import { DEFAULT_RULES, RuleSet } from './rules';
+import { DEFAULT_TABLE, GameState, TableConfig, dealGame } from './engine';
+
+/**
+ * A scripted deal for tests: `ids` come off the deck first, so with two seats
+ * seat 0 gets the first `handSize` of them, seat 1 the next, and the one after
+ * is turned up. The rest of the deck follows in its usual order.
+ */
+export const stackedDeal = (ids: string[], handSize: number, rules: Partial<RuleSet> = {}, table: TableConfig = DEFAULT_TABLE): GameState => {
+  const full: RuleSet = { ...DEFAULT_RULES, ...rules, handSize };
+  return dealGame(stackDeck(ids, createDeck(full.decks, full.jokers)), 1, table, full);
+};
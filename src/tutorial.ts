@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Card, stackDeck } from './types';
+import { DEFAULT_RULES, RuleSet } from './rules';
+import { GameAction, GameEvent, GameState, TableConfig, applyAction, dealGame } from './engine';
+
+export const LEARNER = 0;
+export const TUTOR = 1;
+
+/** The tutorial plays the standard misère rules, with hands small enough to follow. */
+export const TUTORIAL_RULES: RuleSet = { ...DEFAULT_RULES, handSize: 4 };
+
+export type TutorialStepId =
+  | 'welcome'
+  | 'matchSuit'
+  | 'matchRank'
+  | 'draw'
+  | 'wildAce'
+  | 'pickSuit'
+  | 'followSuit'
+  | 'holdBack'
+  | 'pass'
+  | 'done';
+
+export interface TutorialStep {
+  id: TutorialStepId;
+  /** The learner's move that completes the step; null when the step only needs reading. */
+  expect: GameAction | null;
+  /** The tutor's moves, played in order once the learner has made theirs. */
+  replies: GameAction[];
+}
+
+/**
+ * The deck in dealing order: the learner's four cards, the tutor's four, the
+ * starting discard, then the cards the draws will turn up. The rest of a
+ * standard deck follows so the piles look like a real game's.
+ */
+const SCRIPTED_IDS = [
+  '3-hearts-1', '9-clubs-1', 'K-diamonds-1', '4-diamonds-1',
+  '9-hearts-1', '6-clubs-1', 'Q-spades-1', '10-clubs-1',
+  '7-hearts-1',
+  'A-spades-1', '2-spades-1', '5-clubs-1', '8-spades-1',
+];
+
+export const TUTORIAL_DECK: Card[] = stackDeck(SCRIPTED_IDS);
+
+const play = (seat: number, cardId: string): GameAction => ({ type: 'play', seat, cardId });
+
+/**
+ * The lesson plan. Every reply is legal against the scripted deck, and the
+ * tutor's draws turn up nothing it can play, so its turn ends by itself.
+ */
+export const TUTORIAL_STEPS: TutorialStep[] = [
+  { id: 'welcome', expect: null, replies: [] },
+  { id: 'matchSuit', expect: play(LEARNER, '3-hearts-1'), replies: [play(TUTOR, '9-hearts-1')] },
+  { id: 'matchRank', expect: play(LEARNER, '9-clubs-1'), replies: [play(TUTOR, '6-clubs-1')] },
+  { id: 'draw', expect: { type: 'draw', seat: LEARNER }, replies: [] },
+  { id: 'wildAce', expect: play(LEARNER, 'A-spades-1'), replies: [] },
+  { id: 'pickSuit', expect: { type: 'chooseSuit', seat: LEARNER, suit: 'diamonds' }, replies: [{ type: 'draw', seat: TUTOR }] },
+  { id: 'followSuit', expect: play(LEARNER, 'K-diamonds-1'), replies: [{ type: 'draw', seat: TUTOR }] },
+  { id: 'holdBack', expect: { type: 'draw', seat: LEARNER }, replies: [] },
+  { id: 'pass', expect: { type: 'pass', seat: LEARNER }, replies: [] },
+  { id: 'done', expect: null, replies: [] },
+];
+
+/** Deals the scripted game; the names are passed in so they follow the table's language. */
+export const dealTutorial = (learner: string, tutor: string): GameState => {
+  const table: TableConfig = {
+    seats: [
+      { name: learner, kind: 'human' },
+      { name: tutor, kind: 'ai' },
+    ],
+    playToLast: false,
+  };
+  return dealGame(TUTORIAL_DECK, 0, table, TUTORIAL_RULES);
+};
+
+/** Whether `action` is the move `step` is waiting for. */
+export const isExpected = (step: TutorialStep, action: GameAction): boolean => {
+  const expected = step.expect;
+  if (!expected || expected.type !== action.type || expected.seat !== action.seat) return false;
+  if (expected.type === 'play' && action.type === 'play') return expected.cardId === action.cardId;
+  if (expected.type === 'chooseSuit' && action.type === 'chooseSuit') return expected.suit === action.suit;
+  return true;
+};
+
+/**
+ * Plays the learner's expected move for `step` and then the tutor's replies.
+ * Returns null when `action` is not the move the step teaches, leaving the
+ * game untouched.
+ */
+export const advanceTutorial = (
+  state: GameState,
+  step: TutorialStep,
+  action: GameAction,
+): { state: GameState; events: GameEvent[] } | null => {
+  if (!isExpected(step, action)) return null;
+  let result = applyAction(state, action);
+  const events = [...result.events];
+  for (const reply of step.replies) {
+    result = applyAction(result.state, reply);
+    events.push(...result.events);
+  }
+  return { state: result.state, events };
+};
@@ -1,34 +1,56 @@
+import { Rng } from './random';
 
 export type Suit = 'hearts' | 'diamonds' | 'clubs' | 'spades';
-export type Rank = 'A' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | '10' | 'J' | 'Q' | 'K';
+export type Rank = 'A' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | '10' | 'J' | 'Q' | 'K' | 'Joker';
 
 export interface Card {
+  /** Unique within a game, even when several decks are shuffled together. */
   id: string;
-  suit: Suit;
+  /** Null for a Joker, which belongs to no suit. */
+  suit: Suit | null;
   rank: Rank;
 }
 
 export const SUITS: Suit[] = ['hearts', 'diamonds', 'clubs', 'spades'];
+/** The thirteen ranks found in every suit; Jokers stand apart. */
 export const RANKS: Rank[] = ['A', '2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K'];
+export const JOKER: Rank = 'Joker';
+export const JOKERS_PER_DECK = 2;
 
-export const createDeck = (): Card[] => {
+/** `decks` standard decks shuffled together, each with its two Jokers when `jokers` is set. */
+export const createDeck = (decks = 1, jokers = false): Card[] => {
   const deck: Card[] = [];
-  SUITS.forEach((suit) => {
-    RANKS.forEach((rank) => {
-      deck.push({
-        id: `${rank}-${suit}`,
-        suit,
-        rank,
+  for (let copy = 1; copy <= decks; copy++) {
+    SUITS.forEach((suit) => {
+      RANKS.forEach((rank) => {
+        deck.push({
+          id: `${rank}-${suit}-${copy}`,
+          suit,
+          rank,
+        });
       });
     });
-  });
+    if (jokers) {
+      for (let joker = 1; joker <= JOKERS_PER_DECK; joker++) {
+        deck.push({ id: `${JOKER}-${copy}-${joker}`, suit: null, rank: JOKER });
+      }
+    }
+  }
   return deck;
 };
 
-export const shuffleDeck = (deck: Card[]): Card[] => {
+/** `deck` reordered so the cards named by `ids` come first, in that order; for scripted deals. */
+export const stackDeck = (ids: string[], deck: Card[] = createDeck()): Card[] => [
+  ...ids.map((id) => deck.find((card) => card.id === id)!),
+  ...deck.filter((card) => !ids.includes(card.id)),
+];
+
+export const cardName = (card: Card): string => (card.suit ? `${card.rank} of ${card.suit}` : card.rank);
+
+export const shuffleDeck = (deck: Card[], rng: Rng = Math.random): Card[] => {
   const newDeck = [...deck];
   for (let i = newDeck.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(rng() * (i + 1));
     [newDeck[i], newDeck[j]] = [newDeck[j], newDeck[i]];
   }
   return newDeck;
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Card, Suit } from './types';
+import { RuleSet } from './rules';
+import { EndReason, GameAction, GameEvent, GameState, SeatConfig, canDraw, legalActions, topDiscard } from './engine';
+
+/**
+ * What a single seat is allowed to know about a game: their own hand plus the
+ * public table. Opponents' hands and the deck order are reduced to counts.
+ */
+export interface PlayerView {
+  seat: number;
+  seats: SeatConfig[];
+  rules: RuleSet;
+  playToLast: boolean;
+  hand: Card[];
+  handCounts: number[];
+  deckSize: number;
+  canDraw: boolean;
+  /** The face-up discard pile, oldest first. */
+  discardPile: Card[];
+  topDiscard: Card | null;
+  currentSuit: Suit | null;
+  turn: number;
+  direction: 1 | -1;
+  pendingWild: Card | null;
+  pendingDraw: number;
+  hasDrawn: boolean;
+  drawsThisTurn: number;
+  /** Passes in a row with nothing left to draw; a full round of them is a deadlock. */
+  stuckPasses: number;
+  out: number[];
+  /** Moves played so far, by every seat. */
+  moveCount: number;
+  /** Actions this seat may take; empty when it is not their turn. */
+  legal: GameAction[];
+  status: GameState['status'];
+  loser: number | null;
+  winner: number | null;
+  endReason: EndReason | null;
+}
+
+/** A `GameEvent` as one seat sees it: other seats' draws arrive face down. */
+export type PlayerEvent =
+  | Exclude<GameEvent, { type: 'cardDrawn' }>
+  | { type: 'cardDrawn'; seat: number; card: Card | null };
+
+export const redactEvents = (events: GameEvent[], seat: number): PlayerEvent[] =>
+  events.map((event) => (event.type === 'cardDrawn' && event.seat !== seat ? { ...event, card: null } : event));
+
+export const getPlayerView = (state: GameState, seat: number): PlayerView => ({
+  seat,
+  seats: state.table.seats,
+  rules: state.rules,
+  playToLast: state.table.playToLast,
+  hand: state.hands[seat],
+  handCounts: state.hands.map((hand) => hand.length),
+  deckSize: state.deck.length,
+  canDraw: canDraw(state),
+  discardPile: state.discardPile,
+  topDiscard: topDiscard(state) ?? null,
+  currentSuit: state.currentSuit,
+  turn: state.turn,
+  direction: state.direction,
+  pendingWild: state.pendingWild,
+  pendingDraw: state.pendingDraw,
+  hasDrawn: state.turn === seat && state.hasDrawn,
+  drawsThisTurn: state.turn === seat ? state.drawsThisTurn : 0,
+  stuckPasses: state.stuckPasses,
+  out: state.out,
+  moveCount: state.moves.length,
+  legal: state.turn === seat ? legalActions(state) : [],
+  status: state.status,
+  loser: state.loser,
+  winner: state.winner,
+  endReason: state.endReason,
+});